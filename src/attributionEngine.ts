@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { TranscriptParser } from './transcriptParser';
+import { FileEdit, ParsedPrompt, ParsedSession } from './types';
+import { diffLines, splitLines } from './unifiedDiff';
+
+/** The prompt that last wrote a line, or undefined if Claude did not write it */
+export type LineOwner = ParsedPrompt | undefined;
+
+/** A file's content after Claude's last edit, with the owner of each line */
+interface ReplayResult {
+  content: string;
+  owners: LineOwner[];
+}
+
+/**
+ * Attributes the lines of a file to the prompts that wrote them ("AI blame").
+ *
+ * Replays every Edit/Write tool result of a session in order, moving line
+ * owners along with each edit's structuredPatch, then maps the replayed
+ * content onto the current text. Lines changed outside of Claude belong to
+ * no prompt.
+ */
+export class AttributionEngine {
+  /** Replay results of the last session, by normalized file path */
+  private replayCache = new Map<string, ReplayResult | undefined>();
+  private cachedSession: ParsedSession | null = null;
+
+  constructor(private parser: TranscriptParser) {}
+
+  /**
+   * Attribute each line of a file's current text to a prompt
+   * @returns One owner per line of text
+   */
+  attribute(session: ParsedSession, filePath: string, text: string): LineOwner[] {
+    if (session !== this.cachedSession) {
+      this.replayCache.clear();
+      this.cachedSession = session;
+    }
+
+    const key = path.normalize(filePath);
+    if (!this.replayCache.has(key)) {
+      this.replayCache.set(key, this.replay(session, key));
+    }
+
+    const lineCount = splitLines(text).length;
+    const replayed = this.replayCache.get(key);
+    if (!replayed) {
+      return new Array<LineOwner>(lineCount).fill(undefined);
+    }
+    return carryOwners(replayed.content, replayed.owners, text, undefined);
+  }
+
+  /**
+   * Replay the session's edits of a file, tracking which prompt wrote each line
+   */
+  private replay(session: ParsedSession, filePath: string): ReplayResult | undefined {
+    let content: string | undefined;
+    let owners: LineOwner[] = [];
+
+    // Subagent edits belong to the prompt that started the subagent
+    for (const { edit, prompt, before, after } of this.parser.replayFileEdits(session.prompts, filePath)) {
+      if (before === undefined || after === undefined) {
+        continue;
+      }
+
+      // Lines changed between Claude's edits were written by someone else
+      owners = content === undefined
+        ? new Array<LineOwner>(splitLines(before).length).fill(undefined)
+        : carryOwners(content, owners, before, undefined);
+
+      owners = applyPatchOwners(edit, owners, after, prompt) ?? carryOwners(before, owners, after, prompt);
+      content = after;
+    }
+
+    return content === undefined ? undefined : { content, owners };
+  }
+}
+
+/**
+ * Move line owners from one text to another.
+ * Unchanged lines keep their owner, inserted lines get newOwner.
+ */
+function carryOwners(oldText: string, oldOwners: LineOwner[], newText: string, newOwner: LineOwner): LineOwner[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const newOwners = new Array<LineOwner>(newLines.length).fill(newOwner);
+
+  for (const op of diffLines(oldLines, newLines)) {
+    if (op.type === 'equal') {
+      newOwners[op.newIndex] = oldOwners[op.oldIndex];
+    }
+  }
+  return newOwners;
+}
+
+/**
+ * Move line owners through the structuredPatch of an edit.
+ * Returns undefined when the edit has no patch or the patch does not match the content.
+ */
+function applyPatchOwners(edit: FileEdit, owners: LineOwner[], after: string, prompt: ParsedPrompt): LineOwner[] | undefined {
+  if (!edit.structuredPatch || edit.structuredPatch.length === 0) {
+    return undefined;
+  }
+
+  const newOwners: LineOwner[] = [];
+  let oldIndex = 0;
+
+  for (const hunk of edit.structuredPatch) {
+    const start = Math.max(0, hunk.oldStart - 1);
+    if (start < oldIndex || start > owners.length) {
+      return undefined;
+    }
+    while (oldIndex < start) {
+      newOwners.push(owners[oldIndex++]);
+    }
+
+    for (const line of hunk.lines) {
+      if (line.startsWith('\\')) {
+        // "\ No newline at end of file"
+        continue;
+      }
+      if (line.startsWith('+')) {
+        newOwners.push(prompt);
+      } else if (line.startsWith('-')) {
+        oldIndex++;
+      } else {
+        newOwners.push(owners[oldIndex++]);
+      }
+    }
+  }
+
+  while (oldIndex < owners.length) {
+    newOwners.push(owners[oldIndex++]);
+  }
+
+  return newOwners.length === splitLines(after).length ? newOwners : undefined;
+}
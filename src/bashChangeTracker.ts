@@ -0,0 +1,352 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FileChange, ParsedPrompt, ParsedSession } from './types';
+import { TranscriptParser } from './transcriptParser';
+import { runGit } from './git';
+
+/** Most files hashed per workspace folder */
+const MAX_TRACKED_FILES = 5000;
+
+/** Files larger than this are compared by size and modification time only */
+const MAX_HASHED_FILE_SIZE = 5 * 1024 * 1024;
+
+/** A file change recorded while a Bash command ran */
+interface RecordedChange {
+  filePath: string;
+  changeType: FileChange['changeType'];
+}
+
+/** What is stored per session in workspace state */
+interface SessionRecord {
+  /** Ids of the Bash calls whose changes were already attributed */
+  processedCallIds: string[];
+  /** Changes by prompt number */
+  changes: { [promptNumber: number]: RecordedChange[] };
+}
+
+/** Hashes of the workspace files and when they were taken */
+interface WorkspaceHashes {
+  hashes: Map<string, string>;
+  time: number;
+}
+
+/** Cached hash of a file, valid while its size and modification time are unchanged */
+interface HashedFile {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+/**
+ * Detects files Claude changed through Bash commands (sed -i, mv, rm,
+ * code generators...), which leave no Edit/Write tool result behind.
+ *
+ * The workspace is hashed on every update. The files whose hash changed
+ * between the update that first saw a Bash call running and the one that
+ * saw its result are credited to the prompt that ran the call. Calls that
+ * started and finished between two updates are compared with the previous
+ * update, as long as they all belong to one prompt. Files the user saved in
+ * VS Code meanwhile are left out. Files ignored by git or hidden by
+ * files.exclude are not hashed. Changes can only be seen while VS Code runs,
+ * so they are kept in workspace state.
+ */
+export class BashChangeTracker implements vscode.Disposable {
+  private hashCache = new Map<string, HashedFile>();
+  /** Hashes of the workspace files when each running Bash call was first seen, by call id */
+  private pending = new Map<string, WorkspaceHashes>();
+  /** Hashes taken by the last update, and the session it was for */
+  private previous: (WorkspaceHashes & { sessionId: string }) | undefined;
+  /** When the user last saved each file, by normalized path */
+  private savedAt = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private workspaceFolder: vscode.WorkspaceFolder,
+    private workspaceState: vscode.Memento,
+    private parser: TranscriptParser
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument(document => {
+        if (document.uri.scheme === 'file') {
+          this.savedAt.set(path.normalize(document.uri.fsPath), Date.now());
+        }
+      })
+    );
+  }
+
+  /**
+   * Hash the workspace and credit changes to Bash calls that finished since the last update.
+   * Updates run one at a time so each compares against the previous one.
+   */
+  update(session: ParsedSession): Promise<void> {
+    const run = this.queue.then(() => this.runUpdate(session));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Changes seen on disk while the prompt's Bash commands ran
+   */
+  getChangesForPrompt(session: ParsedSession, prompt: ParsedPrompt): FileChange[] {
+    const recorded = this.getRecords()[session.sessionId]?.changes[prompt.promptNumber] || [];
+    const earlierPrompts = session.prompts.filter(p => p.promptNumber < prompt.promptNumber);
+
+    return recorded.map(({ filePath, changeType }) => {
+      const relativePath = path.relative(session.projectPath || this.workspaceFolder.uri.fsPath, filePath);
+      const beforeBackup = prompt.beforeSnapshot[filePath] ?? prompt.beforeSnapshot[relativePath] ?? null;
+      return {
+        filePath,
+        changeType,
+        beforeBackup,
+        afterBackup: null,
+        promptNumber: prompt.promptNumber,
+        promptText: prompt.text,
+        // Claude's own last version of the file is the best known "before"
+        originalContent: beforeBackup ? undefined : this.parser.getLastEditedContent(earlierPrompts, filePath),
+        viaBash: true,
+      };
+    });
+  }
+
+  private async runUpdate(session: ParsedSession): Promise<void> {
+    if (!vscode.workspace.getConfiguration('claudeSnapshots', this.workspaceFolder.uri).get<boolean>('trackBashChanges', true)) {
+      this.pending.clear();
+      this.previous = undefined;
+      return;
+    }
+
+    const records = this.getRecords();
+    const record: SessionRecord = records[session.sessionId] || { processedCallIds: [], changes: {} };
+    const processed = new Set(record.processedCallIds);
+
+    const allBashCalls = session.prompts.flatMap(prompt =>
+      prompt.toolCalls
+        .filter(call => call.name === 'Bash' && call.id)
+        .map(call => ({ prompt, id: call.id!, finished: !!call.hasResult }))
+    );
+    const bashCalls = allBashCalls.filter(call => !processed.has(call.id));
+    const started = bashCalls.filter(call => !call.finished && !this.pending.has(call.id));
+    const finished = bashCalls.filter(call => call.finished);
+
+    // Saves during hashing belong to the next update
+    const time = Date.now();
+    const current: WorkspaceHashes = { hashes: await this.hashWorkspace(), time };
+    const previous = this.previous?.sessionId === session.sessionId ? this.previous : undefined;
+    this.previous = { ...current, sessionId: session.sessionId };
+
+    // Calls not seen running started after the previous update. Their changes
+    // can only be told apart when they all come from the same prompt.
+    const unseenPrompts = new Set(finished.filter(call => !this.pending.has(call.id)).map(call => call.prompt));
+    const baseline = unseenPrompts.size === 1 ? previous : undefined;
+
+    for (const { prompt, id } of finished) {
+      const before = this.pending.get(id) ?? baseline;
+      this.pending.delete(id);
+      record.processedCallIds.push(id);
+      // Without hashes from before the call, e.g. right after VS Code started, it cannot be attributed
+      if (!before) {
+        continue;
+      }
+
+      const editedByTools = new Set([...prompt.editedFiles].map(file => path.normalize(file)));
+      const changes = this.diff(before.hashes, current.hashes).filter(change =>
+        !editedByTools.has(change.filePath) && (this.savedAt.get(change.filePath) ?? 0) < before.time
+      );
+      if (changes.length > 0) {
+        record.changes[prompt.promptNumber] = this.mergeChanges(record.changes[prompt.promptNumber] || [], changes);
+      }
+    }
+
+    for (const { id } of started) {
+      this.pending.set(id, current);
+    }
+
+    // Saves before every window still open are no longer needed
+    const oldest = Math.min(time, ...Array.from(this.pending.values(), hashes => hashes.time));
+    for (const [filePath, savedTime] of this.savedAt) {
+      if (savedTime < oldest) {
+        this.savedAt.delete(filePath);
+      }
+    }
+
+    if (finished.length > 0) {
+      // Calls dropped from the transcript, e.g. by compaction, cannot come back
+      const callIds = new Set(allBashCalls.map(call => call.id));
+      record.processedCallIds = record.processedCallIds.filter(id => callIds.has(id));
+      await this.workspaceState.update(this.stateKey, { ...records, [session.sessionId]: record });
+    }
+  }
+
+  /**
+   * Hash every file of the workspace folder, reusing hashes of unchanged files
+   */
+  private async hashWorkspace(): Promise<Map<string, string>> {
+    const rootPath = this.workspaceFolder.uri.fsPath;
+    const isExcluded = this.getFilesExcludeMatcher();
+    const filePaths = (await this.listFiles())
+      .filter(relativePath => !isExcluded(relativePath))
+      .slice(0, MAX_TRACKED_FILES)
+      .map(relativePath => path.join(rootPath, relativePath));
+
+    const hashes = new Map<string, string>();
+    for (const filePath of filePaths) {
+      try {
+        const stats = await fs.promises.stat(filePath);
+        if (!stats.isFile()) {
+          continue;
+        }
+        const cached = this.hashCache.get(filePath);
+        if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+          hashes.set(filePath, cached.hash);
+          continue;
+        }
+
+        const hash = stats.size > MAX_HASHED_FILE_SIZE
+          ? `${stats.size}:${stats.mtimeMs}`
+          : crypto.createHash('sha1').update(await fs.promises.readFile(filePath)).digest('hex');
+        this.hashCache.set(filePath, { size: stats.size, mtimeMs: stats.mtimeMs, hash });
+        hashes.set(filePath, hash);
+      } catch {
+        // Deleted while hashing
+      }
+    }
+
+    for (const filePath of this.hashCache.keys()) {
+      if (!hashes.has(filePath)) {
+        this.hashCache.delete(filePath);
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * Files of the workspace folder relative to it: those git does not ignore,
+   * or outside a git repository every file VS Code shows
+   */
+  private async listFiles(): Promise<string[]> {
+    const rootPath = this.workspaceFolder.uri.fsPath;
+    try {
+      const output = await runGit(['ls-files', '-z', '--cached', '--others', '--exclude-standard'], rootPath);
+      return output.split('\0').filter(file => file).map(file => path.normalize(file));
+    } catch {
+      // Not a git repository, or git is not installed
+    }
+
+    // Leaving out the exclude pattern applies files.exclude
+    const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(this.workspaceFolder, '**/*'), undefined, MAX_TRACKED_FILES);
+    return uris.map(uri => path.relative(rootPath, uri.fsPath));
+  }
+
+  /**
+   * Matcher for the files.exclude patterns that are switched on
+   */
+  private getFilesExcludeMatcher(): (relativePath: string) => boolean {
+    const patterns = vscode.workspace.getConfiguration('files', this.workspaceFolder.uri).get<Record<string, unknown>>('exclude') || {};
+    const regExps = Object.entries(patterns)
+      .filter(([, enabled]) => enabled === true)
+      .map(([pattern]) => globToRegExp(pattern));
+
+    return relativePath => {
+      // A pattern matching a folder excludes everything in it
+      const parts = relativePath.split(path.sep);
+      return parts.some((_, index) => {
+        const prefix = parts.slice(0, index + 1).join('/');
+        return regExps.some(regExp => regExp.test(prefix));
+      });
+    };
+  }
+
+  /**
+   * Files added, modified or deleted between two sets of hashes
+   */
+  private diff(before: Map<string, string>, after: Map<string, string>): RecordedChange[] {
+    const changes: RecordedChange[] = [];
+    for (const [filePath, hash] of after) {
+      const previous = before.get(filePath);
+      if (previous === undefined) {
+        changes.push({ filePath, changeType: 'added' });
+      } else if (previous !== hash) {
+        changes.push({ filePath, changeType: 'modified' });
+      }
+    }
+    for (const filePath of before.keys()) {
+      if (!after.has(filePath)) {
+        changes.push({ filePath, changeType: 'deleted' });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Combine changes of the same prompt seen in different updates
+   */
+  private mergeChanges(existing: RecordedChange[], changes: RecordedChange[]): RecordedChange[] {
+    const merged = new Map(existing.map(change => [change.filePath, change.changeType]));
+    for (const { filePath, changeType } of changes) {
+      const previous = merged.get(filePath);
+      if (previous === 'added' && changeType === 'deleted') {
+        // Created and removed again, e.g. a temporary file
+        merged.delete(filePath);
+      } else if (previous === 'added') {
+        merged.set(filePath, 'added');
+      } else if (previous === 'deleted' && changeType === 'added') {
+        merged.set(filePath, 'modified');
+      } else {
+        merged.set(filePath, changeType);
+      }
+    }
+    return Array.from(merged, ([filePath, changeType]) => ({ filePath, changeType }));
+  }
+
+  private getRecords(): { [sessionId: string]: SessionRecord } {
+    return this.workspaceState.get(this.stateKey) || {};
+  }
+
+  /**
+   * Key under which recorded changes are stored in workspace state
+   */
+  private get stateKey(): string {
+    return `claude-snapshots.bashChanges:${this.workspaceFolder.uri.toString()}`;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
+
+/**
+ * Convert a files.exclude glob to a regular expression matching workspace-relative paths
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+    } else if (char === '}') {
+      source += ')';
+    } else if (char === ',') {
+      source += '|';
+    } else if (char === '[' || char === ']') {
+      source += char;
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
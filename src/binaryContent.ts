@@ -0,0 +1,28 @@
+/** How many leading bytes are checked for binary content (same as git) */
+export const BINARY_CHECK_LENGTH = 8000;
+
+/**
+ * Whether content is binary, i.e. contains a NUL byte near the start
+ */
+export function isBinaryContent(content: Uint8Array): boolean {
+  const length = Math.min(content.length, BINARY_CHECK_LENGTH);
+  for (let i = 0; i < length; i++) {
+    if (content[i] === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Format a file size for display, e.g. "1.5 KB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
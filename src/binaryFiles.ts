@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OriginalContentProvider, SnapshotFileSystemProvider } from './snapshotFileSystemProvider';
+import { BINARY_CHECK_LENGTH, formatFileSize, isBinaryContent } from './binaryContent';
+
+/** Binary file types VS Code can show side by side with its built-in image preview */
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.jpe', '.gif', '.webp', '.bmp', '.ico']);
+
+/**
+ * Open a diff of two versions of a file.
+ *
+ * Binary files VS Code has a viewer for (images) open in that viewer. Other
+ * binary files would only show garbage, so a placeholder with the size of
+ * each side is shown instead.
+ */
+export async function showDiff(
+  left: vscode.Uri,
+  right: vscode.Uri,
+  title: string,
+  filePath: string,
+  options?: vscode.TextDocumentShowOptions
+): Promise<void> {
+  const [before, after] = await Promise.all([readStart(left), readStart(right)]);
+  const isBinary = (before !== undefined && isBinaryContent(before.start)) || (after !== undefined && isBinaryContent(after.start));
+
+  if (!isBinary || IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    await vscode.commands.executeCommand('vscode.diff', left, right, title, options);
+    return;
+  }
+
+  const describe = (content: { size: number } | undefined) =>
+    content === undefined ? 'unknown size' : formatFileSize(content.size);
+  const summary = `Binary file changed (size ${describe(before)} → ${describe(after)})`;
+  // The placeholder is a text file, whatever the binary's extension
+  const placeholderPath = `${filePath}.txt`;
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    OriginalContentProvider.createUri(`Binary file (${describe(before)})\n`, placeholderPath),
+    OriginalContentProvider.createUri(`Binary file (${describe(after)})\n`, placeholderPath),
+    `${path.basename(filePath)} (${summary})`,
+    options
+  );
+}
+
+/**
+ * Read the bytes checked for binary content from the start of the content
+ * behind a URI, and its size. Undefined if it cannot be read.
+ */
+async function readStart(uri: vscode.Uri): Promise<{ start: Uint8Array; size: number } | undefined> {
+  // Files on disk and backups are only read as far as needed
+  const localPath = uri.scheme === 'file' ? uri.fsPath : SnapshotFileSystemProvider.getBackupFilePath(uri);
+  if (localPath) {
+    let handle: fs.promises.FileHandle | undefined;
+    try {
+      handle = await fs.promises.open(localPath, 'r');
+      const { size } = await handle.stat();
+      const buffer = Buffer.alloc(Math.min(size, BINARY_CHECK_LENGTH));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      return { start: buffer.subarray(0, bytesRead), size };
+    } catch {
+      return undefined;
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  // Other schemes carry their content in the URI
+  try {
+    const content = await vscode.workspace.fs.readFile(uri);
+    return { start: content.subarray(0, BINARY_CHECK_LENGTH), size: content.length };
+  } catch {
+    // Not served by a file system provider (e.g. claude-empty, claude-original)
+  }
+  try {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const content = Buffer.from(document.getText(), 'utf-8');
+    return { start: content.subarray(0, BINARY_CHECK_LENGTH), size: content.length };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClaudeScmProvider } from './claudeScmProvider';
+import { AttributionEngine, LineOwner } from './attributionEngine';
+import { ParsedSession } from './types';
+import { getProviderFor, truncateText } from './utils';
+
+/** Line owners of one document version */
+interface DocumentAttribution {
+  version: number;
+  session: ParsedSession;
+  owners: LineOwner[];
+}
+
+/**
+ * Shows which Claude prompt wrote each line of a file ("AI blame"):
+ * on hover, as CodeLens above each block of lines, and optionally as an
+ * inline annotation at the end of the current line.
+ */
+export class BlameProvider implements vscode.HoverProvider, vscode.CodeLensProvider, vscode.Disposable {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  private engines = new Map<ClaudeScmProvider, AttributionEngine>();
+  private attributions = new Map<string, DocumentAttribution>();
+  private inlineDecoration: vscode.TextEditorDecorationType;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private providers: ClaudeScmProvider[]) {
+    this.inlineDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 3em',
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen,
+    });
+
+    const selector: vscode.DocumentSelector = { scheme: 'file' };
+    this.disposables.push(
+      this.inlineDecoration,
+      vscode.languages.registerHoverProvider(selector, this),
+      vscode.languages.registerCodeLensProvider(selector, this),
+      vscode.commands.registerCommand('claude-snapshots.openPromptDiff', (filePath: string, promptNumber: number) =>
+        this.openPromptDiff(filePath, promptNumber)
+      ),
+      vscode.window.onDidChangeTextEditorSelection(event => this.updateInlineBlame(event.textEditor)),
+      vscode.window.onDidChangeActiveTextEditor(editor => this.updateInlineBlame(editor)),
+      vscode.workspace.onDidCloseTextDocument(document => this.attributions.delete(document.uri.toString())),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('claudeSnapshots.blame')) {
+          this._onDidChangeCodeLenses.fire();
+          this.updateInlineBlame(vscode.window.activeTextEditor);
+        }
+      })
+    );
+  }
+
+  /**
+   * Recompute attributions whenever a provider reloads its session
+   */
+  watchProvider(provider: ClaudeScmProvider): void {
+    this.disposables.push(
+      provider.onDidRefresh(() => {
+        this.attributions.clear();
+        this._onDidChangeCodeLenses.fire();
+        this.updateInlineBlame(vscode.window.activeTextEditor);
+      })
+    );
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    if (!this.isEnabled('hover')) {
+      return undefined;
+    }
+
+    const owner = this.getAttribution(document)?.owners[position.line];
+    if (!owner) {
+      return undefined;
+    }
+
+    const args = encodeURIComponent(JSON.stringify([document.uri.fsPath, owner.promptNumber]));
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = true;
+    markdown.supportThemeIcons = true;
+    markdown.appendMarkdown(`**Claude prompt #${owner.promptNumber}** · ${owner.timestamp.toLocaleString()}\n\n`);
+    markdown.appendText(truncateText(owner.text, 500));
+    markdown.appendMarkdown(`\n\n[$(diff) Open prompt diff](command:claude-snapshots.openPromptDiff?${args})`);
+
+    return new vscode.Hover(markdown, document.lineAt(position.line).range);
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.isEnabled('codeLens')) {
+      return [];
+    }
+
+    const owners = this.getAttribution(document)?.owners || [];
+    const lenses: vscode.CodeLens[] = [];
+
+    // One lens above each block of lines written by the same prompt
+    for (let line = 0; line < owners.length; line++) {
+      const owner = owners[line];
+      if (!owner || (line > 0 && owners[line - 1] === owner)) {
+        continue;
+      }
+      lenses.push(new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+        title: `Claude #${owner.promptNumber}: "${truncateText(owner.text, 60)}"`,
+        tooltip: owner.text,
+        command: 'claude-snapshots.openPromptDiff',
+        arguments: [document.uri.fsPath, owner.promptNumber],
+      }));
+    }
+
+    return lenses;
+  }
+
+  /**
+   * Show the owner of the current line at the end of the line
+   */
+  private updateInlineBlame(editor: vscode.TextEditor | undefined): void {
+    if (!editor) {
+      return;
+    }
+
+    const line = editor.selection.active.line;
+    const owner = this.isEnabled('inline') && editor.document.uri.scheme === 'file'
+      ? this.getAttribution(editor.document)?.owners[line]
+      : undefined;
+
+    if (!owner) {
+      editor.setDecorations(this.inlineDecoration, []);
+      return;
+    }
+
+    const endOfLine = editor.document.lineAt(line).range.end;
+    editor.setDecorations(this.inlineDecoration, [{
+      range: new vscode.Range(endOfLine, endOfLine),
+      renderOptions: {
+        after: {
+          contentText: `Claude #${owner.promptNumber} · ${truncateText(owner.text, 50)}`,
+        },
+      },
+    }]);
+  }
+
+  /**
+   * Get the line owners of a document, recomputing them when it changed
+   */
+  private getAttribution(document: vscode.TextDocument): DocumentAttribution | undefined {
+    const provider = getProviderFor(this.providers, document.uri);
+    const session = provider?.getSession();
+    if (!provider || !session) {
+      return undefined;
+    }
+
+    const key = document.uri.toString();
+    const cached = this.attributions.get(key);
+    if (cached && cached.version === document.version && cached.session === session) {
+      return cached;
+    }
+
+    let engine = this.engines.get(provider);
+    if (!engine) {
+      engine = new AttributionEngine(provider.getParser());
+      this.engines.set(provider, engine);
+    }
+
+    const attribution = {
+      version: document.version,
+      session,
+      owners: engine.attribute(session, document.uri.fsPath, document.getText()),
+    };
+    this.attributions.set(key, attribution);
+    return attribution;
+  }
+
+  /**
+   * Open the diff of a file as changed by one prompt
+   */
+  private async openPromptDiff(filePath: string, promptNumber: number): Promise<void> {
+    const provider = getProviderFor(this.providers, vscode.Uri.file(filePath));
+    const session = provider?.getSession();
+    const prompt = session?.prompts.find(p => p.promptNumber === promptNumber);
+    if (!provider || !session || !prompt) {
+      vscode.window.showInformationMessage(`Prompt #${promptNumber} is not part of the current session.`);
+      return;
+    }
+
+    const change = provider.getParser()
+      .getFileChangesForPrompt(prompt, session.projectPath)
+      .find(c => path.normalize(c.filePath) === path.normalize(filePath));
+    if (!change) {
+      vscode.window.showInformationMessage(
+        `No snapshot of ${path.basename(filePath)} was recorded for prompt #${promptNumber}.`
+      );
+      return;
+    }
+
+    await vscode.commands.executeCommand('claude-snapshots.openDiff', {
+      resourceUri: vscode.Uri.file(change.filePath),
+      change,
+      sessionId: session.sessionId,
+    });
+  }
+
+  /**
+   * Whether one of the blame presentations is turned on
+   */
+  private isEnabled(kind: 'hover' | 'codeLens' | 'inline'): boolean {
+    const defaults = { hover: true, codeLens: false, inline: false };
+    return vscode.workspace.getConfiguration('claudeSnapshots.blame').get<boolean>(kind, defaults[kind]);
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this._onDidChangeCodeLenses.dispose();
+  }
+}
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeScmProvider } from './claudeScmProvider';
+import { FileChange, ParsedBranch, ParsedPrompt, ParsedSession } from './types';
+import { EmptyContentProvider, OriginalContentProvider, SnapshotFileSystemProvider, getBeforeUri } from './snapshotFileSystemProvider';
+import { showDiff } from './binaryFiles';
+
+/** A conversation branch of one workspace folder's session */
+interface BranchNode {
+  kind: 'branch';
+  provider: ClaudeScmProvider;
+  session: ParsedSession;
+  branch: ParsedBranch;
+  /** All branches of the session, used to offer cross-branch comparisons */
+  siblings: ParsedBranch[];
+}
+
+/** A prompt on a branch */
+interface PromptNode {
+  kind: 'prompt';
+  parent: BranchNode;
+  prompt: ParsedPrompt;
+  changes: FileChange[];
+}
+
+/** A file changed by a prompt on a branch */
+interface ChangeNode {
+  kind: 'change';
+  parent: PromptNode;
+  change: FileChange;
+}
+
+type BranchTreeNode = BranchNode | PromptNode | ChangeNode;
+
+/**
+ * Tree view listing every conversation branch of the current session.
+ *
+ * When /rewind is used, Claude Code keeps the abandoned messages in the
+ * transcript. The Snapshots SCM view only shows the active branch; this view
+ * shows the abandoned ones too, so attempts can be compared.
+ */
+export class BranchTreeProvider implements vscode.TreeDataProvider<BranchTreeNode>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<BranchTreeNode | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private treeView: vscode.TreeView<BranchTreeNode>;
+  /** Parsed branches by transcript path, reused until the transcript grows */
+  private branchCache = new Map<string, { size: number; mtimeMs: number; branches: ParsedBranch[] }>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private providers: ClaudeScmProvider[]) {
+    this.treeView = vscode.window.createTreeView('claudeSnapshots.branches', {
+      treeDataProvider: this,
+    });
+
+    this.disposables.push(
+      this.treeView,
+      vscode.commands.registerCommand('claude-snapshots.openBranchDiff', (node: ChangeNode) =>
+        this.openBranchDiff(node)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.compareAcrossBranches', (node: ChangeNode) =>
+        this.compareAcrossBranches(node)
+      )
+    );
+  }
+
+  /**
+   * Refresh the tree whenever a provider reloads its session
+   */
+  watchProvider(provider: ClaudeScmProvider): void {
+    this.disposables.push(provider.onDidRefresh(() => this._onDidChangeTreeData.fire(undefined)));
+  }
+
+  getTreeItem(node: BranchTreeNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'branch': {
+        const { branch } = node;
+        const ownPrompts = this.getOwnPrompts(branch);
+        const label = branch.isActive
+          ? 'Active branch'
+          : `Abandoned branch (rewound after ${this.getForkLabel(branch)})`;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = `${ownPrompts.length} prompt${ownPrompts.length !== 1 ? 's' : ''}`;
+        if (this.providers.length > 1) {
+          item.description += ` · ${path.basename(node.session.projectPath)}`;
+        }
+        item.iconPath = new vscode.ThemeIcon(branch.isActive ? 'git-branch' : 'discard');
+        item.contextValue = branch.isActive ? 'claudeActiveBranch' : 'claudeAbandonedBranch';
+        item.tooltip = branch.isActive
+          ? 'The branch the conversation currently continues from'
+          : `Prompts that were discarded with /rewind after prompt ${this.getForkLabel(branch)}`;
+        return item;
+      }
+
+      case 'prompt': {
+        const { prompt, changes } = node;
+        const item = new vscode.TreeItem(
+          `#${prompt.promptNumber}: ${prompt.text.replace(/\s+/g, ' ').trim()}`,
+          changes.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.description = `${changes.length} file${changes.length !== 1 ? 's' : ''}`;
+        item.tooltip = prompt.text;
+        item.iconPath = new vscode.ThemeIcon('comment');
+        return item;
+      }
+
+      case 'change': {
+        const { change } = node;
+        const uri = vscode.Uri.file(change.filePath);
+        const item = new vscode.TreeItem(uri, vscode.TreeItemCollapsibleState.None);
+        item.description = change.changeType;
+        item.contextValue = 'claudeBranchChange';
+        item.command = {
+          command: 'claude-snapshots.openBranchDiff',
+          title: 'View Changes',
+          arguments: [node],
+        };
+        return item;
+      }
+    }
+  }
+
+  getChildren(node?: BranchTreeNode): BranchTreeNode[] {
+    if (!node) {
+      return this.getBranchNodes();
+    }
+
+    switch (node.kind) {
+      case 'branch': {
+        const parser = node.provider.getParser();
+        return this.getOwnPrompts(node.branch).map(prompt => ({
+          kind: 'prompt' as const,
+          parent: node,
+          prompt,
+          changes: parser.getFileChangesForPrompt(prompt, node.session.projectPath),
+        }));
+      }
+
+      case 'prompt':
+        return node.changes.map(change => ({ kind: 'change' as const, parent: node, change }));
+
+      case 'change':
+        return [];
+    }
+  }
+
+  /**
+   * Build the root nodes: the branches of every provider's current session
+   */
+  private getBranchNodes(): BranchTreeNode[] {
+    const nodes: BranchNode[] = [];
+    const transcriptPaths = new Set<string>();
+
+    for (const provider of this.providers) {
+      const session = provider.getSession();
+      if (!session) {
+        continue;
+      }
+
+      transcriptPaths.add(session.transcriptPath);
+      const branches = this.getBranches(provider, session.transcriptPath);
+      for (const branch of branches) {
+        nodes.push({ kind: 'branch', provider, session, branch, siblings: branches });
+      }
+    }
+
+    for (const transcriptPath of this.branchCache.keys()) {
+      if (!transcriptPaths.has(transcriptPath)) {
+        this.branchCache.delete(transcriptPath);
+      }
+    }
+
+    const hasAbandoned = nodes.some(node => !node.branch.isActive);
+    this.treeView.message = hasAbandoned ? undefined : 'No rewound branches in the current session.';
+
+    return nodes;
+  }
+
+  /**
+   * Branches of a transcript, parsed again only when the transcript changed
+   */
+  private getBranches(provider: ClaudeScmProvider, transcriptPath: string): ParsedBranch[] {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(transcriptPath);
+    } catch {
+      this.branchCache.delete(transcriptPath);
+      return [];
+    }
+
+    const cached = this.branchCache.get(transcriptPath);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      return cached.branches;
+    }
+
+    const branches = provider.getParser().parseBranches(transcriptPath);
+    this.branchCache.set(transcriptPath, { size: stats.size, mtimeMs: stats.mtimeMs, branches });
+    return branches;
+  }
+
+  /**
+   * Prompts that belong to the branch itself (after the fork for abandoned branches)
+   */
+  private getOwnPrompts(branch: ParsedBranch): ParsedPrompt[] {
+    return branch.isActive ? branch.prompts : branch.prompts.slice(branch.forkPromptNumber);
+  }
+
+  /**
+   * The last prompt an abandoned branch shares with the active branch, e.g. "#3"
+   */
+  private getForkLabel(branch: ParsedBranch): string {
+    return `#${branch.prompts[branch.forkPromptNumber - 1]?.promptNumber ?? 0}`;
+  }
+
+  /**
+   * Open the diff of a file change made on a branch
+   */
+  private async openBranchDiff(node: ChangeNode): Promise<void> {
+    const { change } = node;
+    const { prompt } = node.parent;
+    const branchNode = node.parent.parent;
+    const sessionId = branchNode.session.sessionId;
+
+    // Changes on the active branch are shown like the Snapshots view shows
+    // them, except for prompts compacted out of it
+    const inSnapshotsView = branchNode.session.prompts.some(p => p.messageId === prompt.messageId);
+    if (branchNode.branch.isActive && inSnapshotsView) {
+      await vscode.commands.executeCommand('claude-snapshots.openDiff', {
+        resourceUri: vscode.Uri.file(change.filePath),
+        change,
+        sessionId,
+      });
+      return;
+    }
+
+    // On an abandoned branch the file on disk no longer reflects the prompt's
+    // result, so the "after" side is recovered from the transcript
+    const fileName = path.basename(change.filePath);
+    const beforeUri = getBeforeUri(change, sessionId);
+    const promptsUpTo = branchNode.branch.prompts.slice(0, branchNode.branch.prompts.indexOf(prompt) + 1);
+    const afterUri = this.getRecordedContentUri(branchNode, promptsUpTo, change.filePath);
+    if (!afterUri) {
+      vscode.window.showInformationMessage(
+        `The result of prompt #${change.promptNumber} for ${fileName} was not recorded in the transcript.`
+      );
+      return;
+    }
+
+    await showDiff(
+      beforeUri,
+      afterUri,
+      `${fileName} (${branchNode.branch.isActive ? 'Compacted' : 'Abandoned'} #${change.promptNumber})`,
+      change.filePath
+    );
+  }
+
+  /**
+   * Diff a file between this branch and another branch of the same session
+   */
+  private async compareAcrossBranches(node: ChangeNode): Promise<void> {
+    const branchNode = node.parent.parent;
+    const others = branchNode.siblings.filter(branch => branch.id !== branchNode.branch.id);
+
+    if (others.length === 0) {
+      vscode.window.showInformationMessage('This session has no other branch to compare with.');
+      return;
+    }
+
+    type BranchPickItem = vscode.QuickPickItem & { branch: ParsedBranch };
+    const picked = await vscode.window.showQuickPick<BranchPickItem>(
+      others.map(branch => ({
+        label: branch.isActive ? 'Active branch' : `Abandoned branch (rewound after ${this.getForkLabel(branch)})`,
+        description: `${this.getOwnPrompts(branch).length} prompts`,
+        detail: this.getOwnPrompts(branch).map(p => p.text.replace(/\s+/g, ' ').trim()).join(' · '),
+        branch,
+      })),
+      { placeHolder: `Compare ${path.basename(node.change.filePath)} with...` }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const filePath = node.change.filePath;
+    const fileName = path.basename(filePath);
+    const toUri = (branch: ParsedBranch): vscode.Uri | undefined => {
+      // The active branch matches the file on disk
+      if (branch.isActive) {
+        return fs.existsSync(filePath) ? vscode.Uri.file(filePath) : EmptyContentProvider.createUri(filePath);
+      }
+      return this.getRecordedContentUri(branchNode, branch.prompts, filePath);
+    };
+
+    const label = (branch: ParsedBranch) => branch.isActive ? 'active' : `abandoned after ${this.getForkLabel(branch)}`;
+    const leftUri = toUri(picked.branch);
+    const rightUri = toUri(branchNode.branch);
+    if (!leftUri || !rightUri) {
+      const unknown = leftUri ? branchNode.branch : picked.branch;
+      vscode.window.showInformationMessage(
+        `The content of ${fileName} on the ${label(unknown)} branch was not recorded in the transcript.`
+      );
+      return;
+    }
+
+    await showDiff(leftUri, rightUri, `${fileName} (${label(picked.branch)} ↔ ${label(branchNode.branch)})`, filePath);
+  }
+
+  /**
+   * URI of a file's content at the end of a list of prompts of a branch,
+   * recovered by replaying Claude's edits or from an after backup.
+   * A file the prompts never changed still has the content it had before the
+   * session changed it. Undefined when the content was not recorded.
+   */
+  private getRecordedContentUri(branchNode: BranchNode, prompts: ParsedPrompt[], filePath: string): vscode.Uri | undefined {
+    const parser = branchNode.provider.getParser();
+    const { sessionId, projectPath } = branchNode.session;
+    const normalizedPath = path.normalize(filePath);
+    const findChange = (prompt: ParsedPrompt) =>
+      parser.getFileChangesForPrompt(prompt, projectPath).find(change => path.normalize(change.filePath) === normalizedPath);
+
+    for (let i = prompts.length - 1; i >= 0; i--) {
+      const change = findChange(prompts[i]);
+      if (!change) {
+        continue;
+      }
+      if (change.changeType === 'deleted') {
+        return EmptyContentProvider.createUri(filePath);
+      }
+
+      const replayed = parser.getLastEditedContent(prompts.slice(0, i + 1), filePath);
+      if (replayed !== undefined) {
+        return OriginalContentProvider.createUri(replayed, filePath);
+      }
+      const afterBackup = change.afterBackup?.backupFileName;
+      if (afterBackup && afterBackup !== change.beforeBackup?.backupFileName) {
+        return SnapshotFileSystemProvider.createUri(sessionId, afterBackup, filePath);
+      }
+      return undefined;
+    }
+
+    // Untouched by these prompts: the content before the first change on any branch
+    for (const branch of branchNode.siblings) {
+      for (const prompt of branch.prompts) {
+        const change = findChange(prompt);
+        if (change) {
+          return getBeforeUri(change, sessionId);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Resolves the directories Claude Code keeps its data in
+ * (projects/ with the transcripts, file-history/ with the backups).
+ *
+ * Checked in order:
+ *   1. The claudeSnapshots.dataDirectory setting (a path or a list of paths)
+ *   2. The CLAUDE_CONFIG_DIR environment variable
+ *   3. ~/.claude
+ *
+ * When several roots are configured, sessions from all of them are merged.
+ */
+export function getClaudeDataDirectories(): string[] {
+  const configured = vscode.workspace
+    .getConfiguration('claudeSnapshots')
+    .get<string | string[]>('dataDirectory');
+
+  const fromSetting = (Array.isArray(configured) ? configured : [configured])
+    .filter((dir): dir is string => typeof dir === 'string' && dir.trim() !== '')
+    .map(dir => expandPath(dir.trim()));
+  if (fromSetting.length > 0) {
+    return Array.from(new Set(fromSetting));
+  }
+
+  const fromEnv = process.env.CLAUDE_CONFIG_DIR?.trim();
+  if (fromEnv) {
+    return [expandPath(fromEnv)];
+  }
+
+  return [path.join(os.homedir(), '.claude')];
+}
+
+/**
+ * Get the file-history directory of a session.
+ * Returns the first root that has one, or the path under the first root if none does.
+ */
+export function getFileHistoryDirectory(sessionId: string): string {
+  const candidates = getClaudeDataDirectories().map(dir => path.join(dir, 'file-history', sessionId));
+  return candidates.find(dir => fs.existsSync(dir)) || candidates[0];
+}
+
+/**
+ * Get the full path to a backup file in file-history
+ */
+export function getBackupFilePath(sessionId: string, backupFileName: string): string {
+  return path.join(getFileHistoryDirectory(sessionId), backupFileName);
+}
+
+/**
+ * Expand a leading ~ and make the path absolute
+ */
+function expandPath(dir: string): string {
+  if (dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')) {
+    dir = path.join(os.homedir(), dir.slice(1));
+  }
+  return path.resolve(dir);
+}
+
+/**
+ * Working directory recorded in each project directory's transcripts, by
+ * directory path. Directories without one are probed again only once their
+ * transcripts changed.
+ */
+const projectCwdCache = new Map<string, { cwd: string } | { signature: string }>();
+
+/** Bytes read from the start of a transcript when looking for its working directory */
+const CWD_PROBE_BYTES = 64 * 1024;
+
+/**
+ * Find the project directories (projects/* in every data directory) holding
+ * sessions for a workspace.
+ *
+ * Claude Code's directory names are a lossy encoding of the session's working
+ * directory, so directories are matched by the cwd recorded in their
+ * transcripts instead. Sessions started in the workspace folder or in a
+ * folder inside it match. Sessions started in a parent folder do not, as
+ * they can also hold the changes made to sibling projects (see the README).
+ */
+export function findProjectDirectories(workspacePath: string): string[] {
+  const workspace = path.resolve(workspacePath);
+  const matches: string[] = [];
+
+  for (const claudeDir of getClaudeDataDirectories()) {
+    const projectsDir = path.join(claudeDir, 'projects');
+    let names: string[];
+    try {
+      names = fs.readdirSync(projectsDir);
+    } catch {
+      continue;
+    }
+
+    for (const name of names) {
+      const projectDir = path.join(projectsDir, name);
+      const cwd = getProjectCwd(projectDir);
+      if (cwd && isSameOrInside(cwd, workspace)) {
+        matches.push(projectDir);
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Get the working directory the sessions of a project directory were started in
+ */
+function getProjectCwd(projectDir: string): string | undefined {
+  const cached = projectCwdCache.get(projectDir);
+  if (cached && 'cwd' in cached) {
+    return cached.cwd;
+  }
+
+  let files: string[];
+  let signature: string;
+  try {
+    files = fs.readdirSync(projectDir).filter(f => f.endsWith('.jsonl') && !f.startsWith('agent-'));
+    signature = files.map(file => `${file}:${fs.statSync(path.join(projectDir, file)).mtimeMs}`).join('|');
+  } catch {
+    return undefined;
+  }
+  if (cached && cached.signature === signature) {
+    return undefined;
+  }
+
+  for (const file of files) {
+    const cwd = readTranscriptCwd(path.join(projectDir, file));
+    if (cwd) {
+      projectCwdCache.set(projectDir, { cwd });
+      return cwd;
+    }
+  }
+
+  projectCwdCache.set(projectDir, { signature });
+  return undefined;
+}
+
+/**
+ * Read the first cwd recorded near the start of a transcript
+ */
+function readTranscriptCwd(transcriptPath: string): string | undefined {
+  let text: string;
+  try {
+    const fd = fs.openSync(transcriptPath, 'r');
+    try {
+      const buffer = Buffer.alloc(CWD_PROBE_BYTES);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+      text = buffer.toString('utf-8', 0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+
+  // The last line may be cut off - it simply fails to parse
+  for (const line of text.split('\n')) {
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry.cwd === 'string' && entry.cwd) {
+        return path.resolve(entry.cwd);
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a path is the same as, or inside, a folder
+ */
+function isSameOrInside(child: string, folder: string): boolean {
+  const relative = path.relative(folder, child);
+  // Names like "..cache" are inside the folder
+  const isOutside = relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative);
+  return !isOutside;
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TranscriptParser } from './transcriptParser';
+import { FileChange, ParsedSession } from './types';
+import { getBeforeUri } from './snapshotFileSystemProvider';
+
+/** What the editor gutter compares open files against */
+export type QuickDiffBaseline = 'session' | 'latestPrompt';
+
+/**
+ * Read the configured gutter baseline
+ */
+export function getQuickDiffBaseline(): QuickDiffBaseline {
+  return vscode.workspace.getConfiguration('claudeSnapshots').get<QuickDiffBaseline>('quickDiffBaseline', 'session');
+}
+
+/**
+ * Quick diff provider pointing each file Claude changed at its content
+ * before the session (or before the latest prompt that changed files),
+ * so the editor gutter marks the lines the AI changed.
+ */
+export class ClaudeQuickDiffProvider implements vscode.QuickDiffProvider {
+  /** Baseline URI per file path, built lazily for the current session */
+  private originals: Map<string, vscode.Uri> | null = null;
+
+  constructor(
+    private getSession: () => ParsedSession | null,
+    private parser: TranscriptParser
+  ) {}
+
+  /**
+   * Forget the computed baselines, e.g. after a refresh or a baseline switch
+   */
+  invalidate(): void {
+    this.originals = null;
+  }
+
+  provideOriginalResource(uri: vscode.Uri): vscode.Uri | undefined {
+    if (uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const session = this.getSession();
+    if (!session) {
+      return undefined;
+    }
+
+    if (!this.originals) {
+      this.originals = this.buildOriginals(session);
+    }
+    return this.originals.get(uri.fsPath);
+  }
+
+  /**
+   * Map every changed file to the URI of its baseline content
+   */
+  private buildOriginals(session: ParsedSession): Map<string, vscode.Uri> {
+    const originals = new Map<string, vscode.Uri>();
+
+    let changes: FileChange[] = [];
+    if (getQuickDiffBaseline() === 'latestPrompt') {
+      // The most recent prompt that changed any file
+      for (let i = session.prompts.length - 1; i >= 0 && changes.length === 0; i--) {
+        changes = this.parser.getFileChangesForPrompt(session.prompts[i], session.projectPath);
+      }
+    } else {
+      changes = this.parser.getSessionFileChanges(session);
+    }
+
+    for (const change of changes) {
+      // Without a known original, an empty baseline would mark the whole file as added
+      const known = !!change.beforeBackup?.backupFileName || change.originalContent != null || change.changeType === 'added';
+      if (known) {
+        originals.set(change.filePath, getBeforeUri(change, session.sessionId));
+      }
+    }
+
+    return originals;
+  }
+}
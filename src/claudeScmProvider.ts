@@ -1,8 +1,19 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { TranscriptParser } from './transcriptParser';
-import { ParsedSession, ParsedPrompt, FileChange } from './types';
-import { OriginalContentProvider } from './snapshotFileSystemProvider';
+import { ParsedSession, ParsedPrompt, FileChange, PromptRangeChange, SessionSummary } from './types';
+import { EmptyContentProvider, OriginalContentProvider, SnapshotFileSystemProvider, getBeforeUri } from './snapshotFileSystemProvider';
+import { SnapshotRestorer } from './snapshotRestorer';
+import { PatchExporter } from './patchExporter';
+import { GitStager, PromptConflict } from './gitStager';
+import { ClaudeQuickDiffProvider } from './claudeQuickDiffProvider';
+import { PromptDetailsPanel } from './promptDetailsPanel';
+import { BashChangeTracker } from './bashChangeTracker';
+import { ReviewTracker } from './reviewTracker';
+import { DriftDetector, DriftedFile } from './driftDetector';
+import { showDiff } from './binaryFiles';
+import { getProviderFor, truncateText } from './utils';
 
 /**
  * VS Code Source Control provider for Claude Code snapshots
@@ -11,15 +22,47 @@ import { OriginalContentProvider } from './snapshotFileSystemProvider';
 export class ClaudeScmProvider implements vscode.Disposable {
   private scm: vscode.SourceControl;
   private parser: TranscriptParser;
+  private restorer: SnapshotRestorer;
+  private patchExporter: PatchExporter;
+  private gitStager: GitStager;
+  private quickDiffProvider: ClaudeQuickDiffProvider;
+  private bashChangeTracker: BashChangeTracker;
+  private reviewTracker: ReviewTracker;
+  private driftDetector: DriftDetector;
   private session: ParsedSession | null = null;
+  /** Changes of each prompt of the session, by prompt number */
+  private promptChanges: Map<number, FileChange[]> = new Map();
+  /** Prompt changes that were reviewed in their current form */
+  private reviewedChanges: Set<FileChange> = new Set();
+  /** Files edited by hand after Claude last changed them, by normalized path */
+  private driftedFiles: Map<string, DriftedFile> = new Map();
   private resourceGroupsMap: Map<string, vscode.SourceControlResourceGroup> = new Map();
+  private sessionGroup: vscode.SourceControlResourceGroup;
+  /** Temporary group listing the files that differ between two prompts */
+  private comparisonGroup: vscode.SourceControlResourceGroup | null = null;
+  private comparedPrompts: { from: number; to: number } | null = null;
   private disposables: vscode.Disposable[] = [];
 
+  private _onDidRefresh = new vscode.EventEmitter<void>();
+  /** Fires after each refresh, once the session data is up to date */
+  readonly onDidRefresh = this._onDidRefresh.event;
+
+  private _onDidOpenDiff = new vscode.EventEmitter<{ change: FileChange; sessionId: string }>();
+  /** Fires when the diff of a change is opened */
+  readonly onDidOpenDiff = this._onDidOpenDiff.event;
+
   constructor(
     private workspaceFolder: vscode.WorkspaceFolder,
-    private fileSystemProvider: vscode.FileSystemProvider
+    private fileSystemProvider: vscode.FileSystemProvider,
+    private workspaceState: vscode.Memento
   ) {
     this.parser = new TranscriptParser();
+    this.restorer = new SnapshotRestorer(this.parser);
+    this.patchExporter = new PatchExporter(this.parser);
+    this.gitStager = new GitStager(this.parser);
+    this.bashChangeTracker = new BashChangeTracker(workspaceFolder, workspaceState, this.parser);
+    this.reviewTracker = new ReviewTracker(workspaceFolder, workspaceState, this.parser);
+    this.driftDetector = new DriftDetector(this.parser);
 
     // Create the Source Control instance
     // Format: "Snapshots - [workspace name]"
@@ -31,24 +74,121 @@ export class ClaudeScmProvider implements vscode.Disposable {
     this.scm.inputBox.placeholder = 'CC Snapshot Viewer (read-only)';
     this.scm.inputBox.visible = false;
 
-    // Set up quick diff (optional, for gutter indicators)
-    this.scm.quickDiffProvider = undefined;
+    // The whole-session group is created first so it stays pinned above the prompt groups
+    this.sessionGroup = this.scm.createResourceGroup('session-all', 'All changes this session');
+    this.sessionGroup.hideWhenEmpty = true;
+
+    // Gutter indicators compare open files with their content before Claude changed them
+    this.quickDiffProvider = new ClaudeQuickDiffProvider(() => this.session, this.parser);
+    this.scm.quickDiffProvider = this.quickDiffProvider;
 
-    // Register commands
     this.disposables.push(
-      vscode.commands.registerCommand('claude-snapshots.refresh', () => this.refresh()),
-      vscode.commands.registerCommand('claude-snapshots.openDiff', (resource: ClaudeResourceState) =>
-        this.openDiff(resource)
-      ),
-      vscode.commands.registerCommand('claude-snapshots.compareWithCurrent', (resource: ClaudeResourceState) =>
-        this.compareWithCurrent(resource)
-      )
+      this.bashChangeTracker,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('claudeSnapshots.quickDiffBaseline', this.workspaceFolder.uri)) {
+          this.resetQuickDiff();
+        }
+      })
     );
 
     // Initial load
     this.refresh();
   }
 
+  /**
+   * Register the commands of the Snapshots view once for every provider.
+   * Each invocation goes to the provider of the workspace folder it concerns.
+   * @param providers The providers of all workspace folders, kept up to date by the caller
+   */
+  static registerCommands(providers: ClaudeScmProvider[]): vscode.Disposable[] {
+    const route = <T extends unknown[]>(command: string, run: (provider: ClaudeScmProvider, ...args: T) => unknown) =>
+      vscode.commands.registerCommand(`claude-snapshots.${command}`, async (...args: T) => {
+        const provider = await ClaudeScmProvider.findProvider(providers, args[0]);
+        return provider ? run(provider, ...args) : undefined;
+      });
+
+    return [
+      vscode.commands.registerCommand('claude-snapshots.refresh', () =>
+        Promise.all(providers.map(provider => provider.refresh()))
+      ),
+      route('selectSession', provider => provider.selectSession()),
+      route('openDiff', (provider, resource: ClaudeResourceState) => provider.openDiff(resource)),
+      route('showManualEdits', (provider, resource: ClaudeResourceState) => provider.showManualEdits(resource)),
+      route('compareWithCurrent', (provider, resource: ClaudeResourceState) => provider.compareWithCurrent(resource)),
+      route('restoreFile', (provider, resource: ClaudeResourceState) => provider.restoreFile(resource)),
+      route('revertPrompt', (provider, group: vscode.SourceControlResourceGroup) => provider.revertPrompt(group)),
+      route('exportFilePatch', (provider, resource: ClaudeResourceState) => provider.exportFilePatch(resource)),
+      route('exportGroupPatch', (provider, group: vscode.SourceControlResourceGroup) => provider.exportGroupPatch(group)),
+      route('exportSessionPatch', provider => provider.exportSessionPatch()),
+      route('stagePrompt', (provider, group: vscode.SourceControlResourceGroup) => provider.stagePrompt(group, false)),
+      route('commitPrompt', (provider, group: vscode.SourceControlResourceGroup) => provider.stagePrompt(group, true)),
+      route('showPromptDetails', (provider, group: vscode.SourceControlResourceGroup) => provider.showPromptDetails(group)),
+      route('comparePrompts', (provider, from?: unknown, to?: unknown) =>
+        provider.comparePrompts(
+          typeof from === 'number' ? from : undefined,
+          typeof to === 'number' ? to : undefined
+        )
+      ),
+      route('openComparisonDiff', (provider, resource: ClaudeComparisonResourceState) =>
+        provider.openComparisonDiff(resource)
+      ),
+      route('closeComparison', provider => provider.closeComparison()),
+      route('markReviewed', (provider, ...targets: Array<ReviewTarget | ReviewTarget[]>) =>
+        provider.setReviewed(targets, true)
+      ),
+      route('markUnreviewed', (provider, ...targets: Array<ReviewTarget | ReviewTarget[]>) =>
+        provider.setReviewed(targets, false)
+      ),
+    ];
+  }
+
+  /**
+   * Find the provider a command argument belongs to: the one showing the
+   * source control, resource group or resource, else the one showing the
+   * change's session and folder. Without such an argument, the only
+   * provider, or the one of the folder the user picks.
+   */
+  static async findProvider(providers: ClaudeScmProvider[], target: unknown): Promise<ClaudeScmProvider | undefined> {
+    // Multi-selections can arrive as an array argument
+    const first: unknown = Array.isArray(target) ? target[0] : target;
+    if (first && typeof first === 'object') {
+      const owner = providers.find(provider => provider.owns(first));
+      if (owner) {
+        return owner;
+      }
+
+      // Diffs opened from other views pass a change and its session
+      const { change, sessionId } = first as Partial<ClaudeResourceState>;
+      const candidates = sessionId ? providers.filter(provider => provider.session?.sessionId === sessionId) : [];
+      const byFolder = change?.filePath
+        ? getProviderFor(candidates.length > 0 ? candidates : providers, vscode.Uri.file(change.filePath))
+        : undefined;
+      if (byFolder || candidates.length > 0) {
+        return byFolder ?? candidates[0];
+      }
+    }
+
+    if (providers.length <= 1) {
+      return providers[0];
+    }
+    const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Pick the workspace folder' });
+    return folder ? providers.find(provider => provider.workspaceFolder.uri.toString() === folder.uri.toString()) : undefined;
+  }
+
+  /**
+   * Whether a command argument is this provider's source control, or one of
+   * its resource groups or resources
+   */
+  private owns(target: object): boolean {
+    if (target === this.scm) {
+      return true;
+    }
+    const groups = [this.sessionGroup, ...this.resourceGroupsMap.values(), ...(this.comparisonGroup ? [this.comparisonGroup] : [])];
+    return groups.some(group =>
+      group === target || group.resourceStates.includes(target as vscode.SourceControlResourceState)
+    );
+  }
+
   /**
    * Refresh the snapshot data from transcripts
    */
@@ -59,55 +199,84 @@ export class ClaudeScmProvider implements vscode.Disposable {
     );
 
     if (transcripts.length === 0) {
+      this.session = null;
       this.disposeAllGroups();
+      this.resetQuickDiff();
+      this._onDidRefresh.fire();
       return;
     }
 
-    // Use the most recent transcript
-    const session = this.parser.parseTranscript(transcripts[0]);
+    // Use the session picked by the user, or the most recent transcript
+    const selectedTranscript = this.getSelectedTranscript(transcripts);
+    const session = this.parser.parseTranscript(selectedTranscript);
     if (!session || session.prompts.length === 0) {
+      this.session = null;
       this.disposeAllGroups();
+      this.resetQuickDiff();
+      this._onDidRefresh.fire();
       return;
     }
 
     this.session = session;
+    await this.bashChangeTracker.update(session);
+
+    // Work out each prompt's changes up front: the whole-session entries are
+    // only reviewed once every prompt's change to the file is
+    this.promptChanges = new Map(
+      session.prompts.map(prompt => [prompt.promptNumber, this.getChangesForPrompt(session, prompt)])
+    );
+    this.reviewedChanges = new Set(
+      Array.from(this.promptChanges.values())
+        .flat()
+        .filter(change => this.reviewTracker.isReviewed(change, session))
+    );
+    this.driftedFiles = this.driftDetector.detect(session, this.promptChanges);
 
     // Track which group IDs we need for this refresh
     const neededGroupIds = new Set<string>();
 
+    // Net changes across the whole session, one entry per file
+    const sessionChanges = this.parser.getSessionFileChanges(session, this.promptChanges);
+    this.sessionGroup.label = `All changes this session (${this.formatGroupCount(sessionChanges)})`;
+    this.sessionGroup.resourceStates = sessionChanges.map(change =>
+      this.createResourceState(change, session.sessionId)
+    );
+
     // Create resource groups for each prompt (in reverse order - newest first)
     const promptsToShow = [...session.prompts].reverse();
 
     for (const prompt of promptsToShow) {
-      const changes = this.parser.getFileChangesForPrompt(prompt, session.projectPath);
+      const changes = this.promptChanges.get(prompt.promptNumber) || [];
 
       // Skip prompts with no file changes
       if (changes.length === 0) {
         continue;
       }
 
-      const groupId = `prompt-${prompt.promptNumber}`;
-      neededGroupIds.add(groupId);
-
-      // Build new resource states
-      const newResourceStates = changes.map(change =>
-        this.createResourceState(change, session.sessionId)
+      const displayText = truncateText(prompt.text, 40);
+      const mainChanges = changes.filter(change => !change.subagent);
+      this.updateGroup(
+        `prompt-${prompt.promptNumber}`,
+        `#${prompt.promptNumber}: "${displayText}" (${this.formatGroupCount(mainChanges)})`,
+        mainChanges,
+        session.sessionId,
+        neededGroupIds
       );
 
-      // Check if group already exists
-      const existingGroup = this.resourceGroupsMap.get(groupId);
-      if (existingGroup) {
-        // Update existing group's resource states only (no flicker)
-        existingGroup.resourceStates = newResourceStates;
-      } else {
-        // Create new group only for new prompts
-        const displayText = this.truncateText(prompt.text, 40);
-        const groupLabel = `#${prompt.promptNumber}: "${displayText}" (${changes.length} file${changes.length !== 1 ? 's' : ''})`;
-
-        const group = this.scm.createResourceGroup(groupId, groupLabel);
-        group.hideWhenEmpty = true;
-        group.resourceStates = newResourceStates;
-        this.resourceGroupsMap.set(groupId, group);
+      // Each subagent started by the prompt gets its own sub-entry below the prompt
+      for (const subagent of prompt.subagents) {
+        const subagentChanges = changes.filter(change => change.subagent?.agentId === subagent.agentId);
+        if (subagentChanges.length === 0) {
+          continue;
+        }
+        this.updateGroup(
+          `prompt-${prompt.promptNumber}-agent-${subagent.agentId}`,
+          `  ↳ #${prompt.promptNumber} subagent: "${truncateText(subagent.description, 40)}" ` +
+            `(${this.formatGroupCount(subagentChanges)})`,
+          subagentChanges,
+          session.sessionId,
+          neededGroupIds
+        );
       }
     }
 
@@ -118,6 +287,271 @@ export class ClaudeScmProvider implements vscode.Disposable {
         this.resourceGroupsMap.delete(groupId);
       }
     }
+
+    this.updateComparison(session);
+    this.resetQuickDiff();
+    this._onDidRefresh.fire();
+  }
+
+  /**
+   * The session currently shown, or null if none was found
+   */
+  getSession(): ParsedSession | null {
+    return this.session;
+  }
+
+  /**
+   * Net changes of the session shown, one per file
+   */
+  getSessionChanges(): FileChange[] {
+    return (this.sessionGroup.resourceStates as ClaudeResourceState[]).map(resource => resource.change);
+  }
+
+  /**
+   * The last prompt of the session shown that changed a file
+   */
+  getLastPromptChanging(filePath: string): number | undefined {
+    const normalized = path.normalize(filePath);
+    const promptNumbers = Array.from(this.promptChanges.keys()).filter(promptNumber =>
+      this.promptChanges.get(promptNumber)!.some(change => path.normalize(change.filePath) === normalized)
+    );
+    return promptNumbers.length > 0 ? Math.max(...promptNumbers) : undefined;
+  }
+
+  /**
+   * The change a prompt of the shown session made to a file, if any
+   */
+  getPromptChange(promptNumber: number, filePath: string): FileChange | undefined {
+    const normalized = path.normalize(filePath);
+    return this.promptChanges.get(promptNumber)?.find(change => path.normalize(change.filePath) === normalized);
+  }
+
+  /**
+   * The workspace folder this provider shows sessions for
+   */
+  getWorkspaceFolder(): vscode.WorkspaceFolder {
+    return this.workspaceFolder;
+  }
+
+  /**
+   * The transcript parser used by this provider
+   */
+  getParser(): TranscriptParser {
+    return this.parser;
+  }
+
+  /**
+   * Make editors ask for their gutter baseline again
+   */
+  private resetQuickDiff(): void {
+    this.quickDiffProvider.invalidate();
+    // Re-assigning the provider makes VS Code re-query the original resources
+    this.scm.quickDiffProvider = undefined;
+    this.scm.quickDiffProvider = this.quickDiffProvider;
+  }
+
+  /**
+   * Key under which the selected session is stored in workspace state
+   */
+  private get selectedSessionKey(): string {
+    return `claude-snapshots.selectedSession:${this.workspaceFolder.uri.toString()}`;
+  }
+
+  /**
+   * Resolve the transcript to display.
+   * Falls back to the most recent transcript when no session was picked,
+   * or when the picked session's transcript no longer exists.
+   */
+  private getSelectedTranscript(transcripts: string[]): string {
+    const selectedSessionId = this.workspaceState.get<string>(this.selectedSessionKey);
+    if (selectedSessionId) {
+      const selected = transcripts.find(t => path.basename(t, '.jsonl') === selectedSessionId);
+      if (selected) {
+        return selected;
+      }
+    }
+    return transcripts[0];
+  }
+
+  /**
+   * Let the user pick which session to show in the Snapshots view
+   */
+  async selectSession(): Promise<void> {
+    const sessions = this.parser.listSessionsForWorkspace(this.workspaceFolder.uri.fsPath);
+
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('No Claude Code sessions found for this workspace.');
+      return;
+    }
+
+    const selectedSessionId = this.workspaceState.get<string>(this.selectedSessionKey);
+
+    type SessionPickItem = vscode.QuickPickItem & { session?: SessionSummary };
+    const items: SessionPickItem[] = [
+      {
+        label: '$(history) Latest session',
+        description: selectedSessionId ? undefined : 'current',
+        detail: 'Always show the most recently active session',
+      },
+      ...sessions.map(session => ({
+        label: session.firstPrompt ? truncateText(session.firstPrompt, 60) : '(no prompts)',
+        description: session.sessionId === selectedSessionId ? 'current' : undefined,
+        detail: `${this.formatDate(session.startTime)} – ${this.formatDate(session.endTime)} · ` +
+          `${session.promptCount} prompt${session.promptCount !== 1 ? 's' : ''}`,
+        session,
+      })),
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select a Claude Code session for ${this.workspaceFolder.name}`,
+      matchOnDetail: true,
+    });
+
+    if (!picked) {
+      return;
+    }
+
+    await this.showSession(picked.session?.sessionId);
+  }
+
+  /**
+   * Show a session in the Snapshots view, or the latest session when undefined
+   */
+  async showSession(sessionId: string | undefined): Promise<void> {
+    await this.workspaceState.update(this.selectedSessionKey, sessionId);
+
+    // Prompt groups belong to the previous session - rebuild them from scratch
+    this.disposeAllGroups();
+    await this.refresh();
+  }
+
+  /**
+   * Bring a prompt into view: switch to its session, focus the Source Control
+   * view and open the prompt's details
+   */
+  async revealPrompt(sessionId: string, promptNumber: number): Promise<void> {
+    if (this.session?.sessionId !== sessionId) {
+      await this.showSession(sessionId);
+    }
+    await vscode.commands.executeCommand('workbench.view.scm');
+
+    const session = this.session;
+    const prompt = session?.prompts.find(p => p.promptNumber === promptNumber);
+    if (session && prompt) {
+      const changes = this.getChangesForPrompt(session, prompt);
+      await PromptDetailsPanel.show(prompt, changes, session.sessionId, this.workspaceFolder.uri.fsPath);
+    }
+  }
+
+  /**
+   * Format a date for display in pickers
+   */
+  private formatDate(date: Date): string {
+    return date.toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  /**
+   * Create or update a resource group, marking it as still needed
+   */
+  private updateGroup(
+    groupId: string,
+    label: string,
+    changes: FileChange[],
+    sessionId: string,
+    neededGroupIds: Set<string>
+  ): void {
+    if (changes.length === 0) {
+      return;
+    }
+    neededGroupIds.add(groupId);
+
+    // Build new resource states
+    const newResourceStates = changes.map(change => this.createResourceState(change, sessionId));
+
+    // Check if group already exists
+    const existingGroup = this.resourceGroupsMap.get(groupId);
+    if (existingGroup) {
+      // Update existing group's resource states and label only (no flicker)
+      existingGroup.resourceStates = newResourceStates;
+      existingGroup.label = label;
+    } else {
+      // Create new group only for new prompts
+      const group = this.scm.createResourceGroup(groupId, label);
+      group.hideWhenEmpty = true;
+      group.resourceStates = newResourceStates;
+      this.resourceGroupsMap.set(groupId, group);
+    }
+  }
+
+  /**
+   * Format a file count for group labels, e.g. "3 files"
+   */
+  private formatFileCount(count: number): string {
+    return `${count} file${count !== 1 ? 's' : ''}`;
+  }
+
+  /**
+   * Format a group's file count and review progress, e.g. "5 files, 3/5 reviewed"
+   */
+  private formatGroupCount(changes: FileChange[]): string {
+    const reviewed = changes.filter(change => this.isReviewed(change)).length;
+    return `${this.formatFileCount(changes.length)}, ${reviewed}/${changes.length} reviewed`;
+  }
+
+  /**
+   * Number of prompt changes in the session, and how many of them were reviewed
+   */
+  getReviewProgress(): { reviewed: number; total: number } {
+    const total = Array.from(this.promptChanges.values()).reduce((sum, changes) => sum + changes.length, 0);
+    return { reviewed: this.reviewedChanges.size, total };
+  }
+
+  /**
+   * Whether a change was reviewed; a whole-session change counts as reviewed
+   * once every prompt's change to the file is
+   */
+  private isReviewed(change: FileChange): boolean {
+    const promptChanges = this.getPromptChangesOf(change);
+    return promptChanges.length > 0 && promptChanges.every(c => this.reviewedChanges.has(c));
+  }
+
+  /**
+   * The prompt changes a shown change stands for: itself, or for a
+   * whole-session change, every prompt's change to the file
+   */
+  private getPromptChangesOf(change: FileChange): FileChange[] {
+    const filePath = path.normalize(change.filePath);
+    const candidates = change.cumulative
+      ? Array.from(this.promptChanges.values()).flat()
+      : this.promptChanges.get(change.promptNumber) || [];
+    return candidates.filter(c => path.normalize(c.filePath) === filePath);
+  }
+
+  /**
+   * Mark resources, or every resource of groups, as reviewed or unreviewed
+   */
+  private async setReviewed(targets: Array<ReviewTarget | ReviewTarget[]>, reviewed: boolean): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    // Multi-selections can arrive as an array argument
+    const resources = targets.flat().flatMap(target =>
+      'resourceStates' in target ? target.resourceStates as ClaudeResourceState[] : [target]
+    );
+    const changes = resources.flatMap(resource => this.getPromptChangesOf(resource.change));
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.reviewTracker.setReviewed(changes, session, reviewed);
+    await this.refresh();
   }
 
   /**
@@ -128,6 +562,173 @@ export class ClaudeScmProvider implements vscode.Disposable {
       group.dispose();
     }
     this.resourceGroupsMap.clear();
+    // The session group is kept (to stay pinned at the top), only emptied
+    this.sessionGroup.resourceStates = [];
+    this.closeComparison();
+  }
+
+  /**
+   * Ask for two prompts and list the files whose state differs between the
+   * start of the first and the end of the second
+   */
+  private async comparePrompts(from?: number, to?: number): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      vscode.window.showInformationMessage('No Claude Code session to compare prompts in.');
+      return;
+    }
+
+    type PromptPickItem = vscode.QuickPickItem & { promptNumber: number };
+    const toItem = (prompt: ParsedPrompt): PromptPickItem => ({
+      label: `#${prompt.promptNumber}: ${truncateText(prompt.text, 60)}`,
+      description: prompt.timestamp.toLocaleString(),
+      promptNumber: prompt.promptNumber,
+    });
+
+    if (from === undefined) {
+      const picked = await vscode.window.showQuickPick(session.prompts.map(toItem), {
+        placeHolder: 'Compare from the start of prompt...',
+      });
+      if (!picked) {
+        return;
+      }
+      from = picked.promptNumber;
+    }
+
+    if (to === undefined) {
+      const start = from;
+      const picked = await vscode.window.showQuickPick(
+        session.prompts.filter(prompt => prompt.promptNumber >= start).map(toItem).reverse(),
+        { placeHolder: `Compare the start of prompt #${start} with the end of prompt...` }
+      );
+      if (!picked) {
+        return;
+      }
+      to = picked.promptNumber;
+    }
+
+    if (from > to) {
+      [from, to] = [to, from];
+    }
+
+    this.comparedPrompts = { from, to };
+    this.updateComparison(session);
+
+    const count = this.comparisonGroup?.resourceStates.length ?? 0;
+    if (count === 0) {
+      vscode.window.showInformationMessage(`No files differ between the start of prompt #${from} and the end of prompt #${to}.`);
+      this.closeComparison();
+      return;
+    }
+    await vscode.commands.executeCommand('workbench.view.scm');
+  }
+
+  /**
+   * Rebuild the comparison group from the session, dropping it when one of
+   * the compared prompts no longer exists
+   */
+  private updateComparison(session: ParsedSession): void {
+    const compared = this.comparedPrompts;
+    if (!compared) {
+      return;
+    }
+
+    const promptNumbers = new Set(session.prompts.map(prompt => prompt.promptNumber));
+    if (!promptNumbers.has(compared.from) || !promptNumbers.has(compared.to)) {
+      this.closeComparison();
+      return;
+    }
+
+    const changes = this.parser.getPromptRangeChanges(session, compared.from, compared.to, this.promptChanges);
+    const label = `Compare #${compared.from} → #${compared.to} (${this.formatFileCount(changes.length)})`;
+    if (!this.comparisonGroup) {
+      this.comparisonGroup = this.scm.createResourceGroup('prompt-compare', label);
+    }
+    this.comparisonGroup.label = label;
+    this.comparisonGroup.resourceStates = changes.map(change =>
+      this.createComparisonResourceState(change, session.sessionId)
+    );
+  }
+
+  /**
+   * Remove the comparison group
+   */
+  private closeComparison(): void {
+    this.comparedPrompts = null;
+    this.comparisonGroup?.dispose();
+    this.comparisonGroup = null;
+  }
+
+  /**
+   * Create a resource state for a file that differs between two prompts
+   */
+  private createComparisonResourceState(change: PromptRangeChange, sessionId: string): ClaudeComparisonResourceState {
+    const uri = vscode.Uri.file(change.filePath);
+    const prefix = change.changeType === 'added' ? '[A]' : change.changeType === 'deleted' ? '[D]' : '[M]';
+    const description = change.changeType === 'added' ? 'Added' : change.changeType === 'deleted' ? 'Deleted' : 'Modified';
+    const unknown = change.contentUnknown ? ' (content not recorded)' : '';
+    const resource = {
+      resourceUri: uri,
+      contextValue: 'claudeSnapshotComparison',
+      decorations: {
+        strikeThrough: change.changeType === 'deleted',
+        faded: change.contentUnknown,
+        tooltip: `${prefix} ${description} between the start of prompt #${change.fromPromptNumber} ` +
+          `and the end of prompt #${change.toPromptNumber}${unknown}`,
+      },
+      comparisonChange: change,
+      sessionId,
+    };
+    return {
+      ...resource,
+      command: {
+        command: 'claude-snapshots.openComparisonDiff',
+        title: 'View Changes',
+        arguments: [resource],
+      },
+    };
+  }
+
+  /**
+   * Open the diff of a file between the two compared prompts
+   */
+  private async openComparisonDiff(resource: ClaudeComparisonResourceState): Promise<void> {
+    const { comparisonChange: change, sessionId } = resource;
+    if (change.contentUnknown) {
+      vscode.window.showInformationMessage(
+        `${path.basename(change.filePath)} changed between the start of prompt #${change.fromPromptNumber} ` +
+          `and the end of prompt #${change.toPromptNumber}, but its content on one side was not recorded.`
+      );
+      return;
+    }
+
+    const sideUri = (backup: PromptRangeChange['beforeBackup'], content: string | undefined) => {
+      if (backup) {
+        return SnapshotFileSystemProvider.createUri(sessionId, backup.backupFileName, change.filePath);
+      }
+      return content !== undefined
+        ? OriginalContentProvider.createUri(content, change.filePath)
+        : EmptyContentProvider.createUri(change.filePath);
+    };
+
+    await showDiff(
+      sideUri(change.beforeBackup, change.beforeContent),
+      sideUri(change.afterBackup, change.afterContent),
+      `${path.basename(change.filePath)} (#${change.fromPromptNumber} → #${change.toPromptNumber})`,
+      change.filePath
+    );
+  }
+
+  /**
+   * The changes of a prompt: those recorded by Claude's editing tools,
+   * plus files its Bash commands changed that no tool recorded
+   */
+  private getChangesForPrompt(session: ParsedSession, prompt: ParsedPrompt): FileChange[] {
+    const changes = this.parser.getFileChangesForPrompt(prompt, session.projectPath);
+    const known = new Set(changes.map(change => path.normalize(change.filePath)));
+    const bashChanges = this.bashChangeTracker.getChangesForPrompt(session, prompt)
+      .filter(change => !known.has(path.normalize(change.filePath)));
+    return [...changes, ...bashChanges];
   }
 
   /**
@@ -156,13 +757,23 @@ export class ClaudeScmProvider implements vscode.Disposable {
         break;
     }
 
+    const reviewed = this.isReviewed(change);
+    const drift = this.getDrift(change);
+
     return {
       resourceUri: uri,
-      contextValue: 'claudeSnapshotResource',
+      contextValue: `claudeSnapshotResource${reviewed ? 'Reviewed' : ''}${drift ? 'Drifted' : ''}`,
       decorations: {
         strikeThrough: change.changeType === 'deleted',
-        tooltip: `${prefix} ${tooltip} in prompt #${change.promptNumber}`,
-        faded: false,
+        tooltip: (change.cumulative
+          ? `${prefix} ${tooltip} during this session (first changed in prompt #${change.promptNumber})`
+          : `${prefix} ${tooltip} in prompt #${change.promptNumber}` +
+            (change.subagent ? ` by subagent "${change.subagent.description}"` : '') +
+            (change.viaBash ? ' via Bash' : '')) +
+          (reviewed ? ' (reviewed)' : '') +
+          (drift ? ` - edited by hand since prompt #${drift.promptNumber}, the file no longer matches Claude's version` : ''),
+        faded: reviewed,
+        iconPath: drift ? new vscode.ThemeIcon('person') : undefined,
       },
       // Custom data for diff commands
       change,
@@ -175,50 +786,126 @@ export class ClaudeScmProvider implements vscode.Disposable {
     };
   }
 
+  /**
+   * The drift of a change's file, if the change is the one whose diff would
+   * show it: Claude's last change to the file, or the whole-session change
+   */
+  private getDrift(change: FileChange): DriftedFile | undefined {
+    const drift = this.driftedFiles.get(path.normalize(change.filePath));
+    return drift && (change.cumulative || change.promptNumber === drift.promptNumber) ? drift : undefined;
+  }
+
+  /**
+   * The "after" side of a prompt's diff that has no after backup: the file on
+   * disk, or Claude's version of it when the file was edited by hand since,
+   * so those edits are not credited to the prompt
+   * @param label Title suffix when the file on disk is shown
+   */
+  private getCurrentSide(change: FileChange, label = ' - vs current'): { uri: vscode.Uri; label: string } {
+    const drift = this.getDrift(change);
+    if (!drift) {
+      return { uri: vscode.Uri.file(change.filePath), label };
+    }
+    return {
+      uri: drift.claudeContent === null
+        ? EmptyContentProvider.createUri(change.filePath)
+        : OriginalContentProvider.createUri(drift.claudeContent, change.filePath),
+      label: ' - Claude\'s version',
+    };
+  }
+
+  /**
+   * Show a drifted file in two diffs side by side: Claude's change, then the
+   * edits made by hand after it
+   */
+  private async showManualEdits(resource: ClaudeResourceState): Promise<void> {
+    const { change, sessionId } = resource;
+    const fileName = path.basename(change.filePath);
+    const drift = this.getDrift(change);
+    if (!drift) {
+      vscode.window.showInformationMessage(`${fileName} still matches Claude's last version.`);
+      return;
+    }
+
+    const claudeUri = drift.claudeContent === null
+      ? EmptyContentProvider.createUri(change.filePath)
+      : OriginalContentProvider.createUri(drift.claudeContent, change.filePath);
+    const currentUri = fs.existsSync(change.filePath)
+      ? vscode.Uri.file(change.filePath)
+      : EmptyContentProvider.createUri(change.filePath);
+    const claudeLabel = change.cumulative ? `Claude's changes this session` : `Claude's change in #${change.promptNumber}`;
+
+    await showDiff(
+      getBeforeUri(change, sessionId),
+      claudeUri,
+      `${fileName} (1/2: ${claudeLabel})`,
+      change.filePath,
+      { viewColumn: vscode.ViewColumn.One, preview: false }
+    );
+    await showDiff(
+      claudeUri,
+      currentUri,
+      `${fileName} (2/2: Edits after Claude)`,
+      change.filePath,
+      { viewColumn: vscode.ViewColumn.Two, preview: false }
+    );
+  }
+
   /**
    * Open a diff view for a file change
    */
   private async openDiff(resource: ClaudeResourceState): Promise<void> {
     const { change, sessionId } = resource;
+    this._onDidOpenDiff.fire({ change, sessionId });
+
+    if (change.cumulative) {
+      await this.openSessionDiff(change, sessionId);
+      return;
+    }
 
     if (change.changeType === 'added') {
       // For added files, show the new content vs empty
-      const emptyUri = vscode.Uri.parse(`claude-empty:/${path.basename(change.filePath)}`);
+      const emptyUri = EmptyContentProvider.createUri(change.filePath);
 
       if (change.afterBackup) {
         // We have a backup - show empty vs backup
-        const afterUri = vscode.Uri.parse(
-          `claude-snapshot:/${sessionId}/${change.afterBackup.backupFileName}?path=${encodeURIComponent(change.filePath)}`
-        );
-        await vscode.commands.executeCommand(
-          'vscode.diff',
+        const afterUri = SnapshotFileSystemProvider.createUri(sessionId, change.afterBackup.backupFileName, change.filePath);
+        await showDiff(
           emptyUri,
           afterUri,
-          `${path.basename(change.filePath)} (Added in #${change.promptNumber})`
+          `${path.basename(change.filePath)} (Added in #${change.promptNumber})`,
+          change.filePath
         );
       } else {
         // No backup yet - show empty vs current file on disk
-        const currentUri = vscode.Uri.file(change.filePath);
-        await vscode.commands.executeCommand(
-          'vscode.diff',
+        const current = this.getCurrentSide(change);
+        await showDiff(
           emptyUri,
-          currentUri,
-          `${path.basename(change.filePath)} (Added in #${change.promptNumber} - vs current)`
+          current.uri,
+          `${path.basename(change.filePath)} (Added in #${change.promptNumber}${current.label})`,
+          change.filePath
         );
       }
     } else if (change.changeType === 'deleted') {
-      // For deleted files, show what was removed vs empty
-      if (change.beforeBackup) {
-        const beforeUri = vscode.Uri.parse(
-          `claude-snapshot:/${sessionId}/${change.beforeBackup.backupFileName}?path=${encodeURIComponent(change.filePath)}`
-        );
+      // For deleted files, show what was removed vs empty.
+      // Files deleted by Bash commands may only have Claude's last version of them.
+      const beforeUri = change.beforeBackup
+        ? SnapshotFileSystemProvider.createUri(sessionId, change.beforeBackup.backupFileName, change.filePath)
+        : change.originalContent != null
+          ? OriginalContentProvider.createUri(change.originalContent, change.filePath)
+          : undefined;
+      if (beforeUri) {
         // Use our empty content provider
-        const emptyUri = vscode.Uri.parse(`claude-empty:/${path.basename(change.filePath)}`);
-        await vscode.commands.executeCommand(
-          'vscode.diff',
+        const emptyUri = EmptyContentProvider.createUri(change.filePath);
+        await showDiff(
           beforeUri,
           emptyUri,
-          `${path.basename(change.filePath)} (Deleted in #${change.promptNumber})`
+          `${path.basename(change.filePath)} (Deleted in #${change.promptNumber})`,
+          change.filePath
+        );
+      } else {
+        vscode.window.showInformationMessage(
+          `No copy of ${path.basename(change.filePath)} from before it was deleted was found.`
         );
       }
     } else {
@@ -231,50 +918,44 @@ export class ClaudeScmProvider implements vscode.Disposable {
           change.originalContent,
           change.filePath
         );
-        const currentUri = vscode.Uri.file(change.filePath);
-        await vscode.commands.executeCommand(
-          'vscode.diff',
+        const current = this.getCurrentSide(change, '');
+        await showDiff(
           beforeUri,
-          currentUri,
-          `${path.basename(change.filePath)} (Prompt #${change.promptNumber})`
+          current.uri,
+          `${path.basename(change.filePath)} (Prompt #${change.promptNumber}${current.label})`,
+          change.filePath
         );
       } else if (change.beforeBackup && change.afterBackup) {
-        const beforeUri = vscode.Uri.parse(
-          `claude-snapshot:/${sessionId}/${change.beforeBackup.backupFileName}?path=${encodeURIComponent(change.filePath)}`
-        );
+        const beforeUri = SnapshotFileSystemProvider.createUri(sessionId, change.beforeBackup.backupFileName, change.filePath);
 
         // If before and after are the same backup (file-history not updated yet),
         // compare the backup with the current file on disk
         if (change.beforeBackup.backupFileName === change.afterBackup.backupFileName) {
-          const currentUri = vscode.Uri.file(change.filePath);
-          await vscode.commands.executeCommand(
-            'vscode.diff',
+          const current = this.getCurrentSide(change);
+          await showDiff(
             beforeUri,
-            currentUri,
-            `${path.basename(change.filePath)} (Prompt #${change.promptNumber} - vs current)`
+            current.uri,
+            `${path.basename(change.filePath)} (Prompt #${change.promptNumber}${current.label})`,
+            change.filePath
           );
         } else {
-          const afterUri = vscode.Uri.parse(
-            `claude-snapshot:/${sessionId}/${change.afterBackup.backupFileName}?path=${encodeURIComponent(change.filePath)}`
-          );
-          await vscode.commands.executeCommand(
-            'vscode.diff',
+          const afterUri = SnapshotFileSystemProvider.createUri(sessionId, change.afterBackup.backupFileName, change.filePath);
+          await showDiff(
             beforeUri,
             afterUri,
-            `${path.basename(change.filePath)} (Prompt #${change.promptNumber})`
+            `${path.basename(change.filePath)} (Prompt #${change.promptNumber})`,
+            change.filePath
           );
         }
       } else if (change.beforeBackup) {
         // We have a before backup but no after - compare with current file
-        const beforeUri = vscode.Uri.parse(
-          `claude-snapshot:/${sessionId}/${change.beforeBackup.backupFileName}?path=${encodeURIComponent(change.filePath)}`
-        );
-        const currentUri = vscode.Uri.file(change.filePath);
-        await vscode.commands.executeCommand(
-          'vscode.diff',
+        const beforeUri = SnapshotFileSystemProvider.createUri(sessionId, change.beforeBackup.backupFileName, change.filePath);
+        const current = this.getCurrentSide(change);
+        await showDiff(
           beforeUri,
-          currentUri,
-          `${path.basename(change.filePath)} (Prompt #${change.promptNumber} - vs current)`
+          current.uri,
+          `${path.basename(change.filePath)} (Prompt #${change.promptNumber}${current.label})`,
+          change.filePath
         );
       } else {
         // No backups at all - just open the current file
@@ -284,6 +965,24 @@ export class ClaudeScmProvider implements vscode.Disposable {
     }
   }
 
+  /**
+   * Open a diff of a file's net change over the session: original vs current
+   */
+  private async openSessionDiff(change: FileChange, sessionId: string): Promise<void> {
+    const fileName = path.basename(change.filePath);
+    const beforeUri = getBeforeUri(change, sessionId);
+    const afterUri = change.changeType === 'deleted'
+      ? EmptyContentProvider.createUri(change.filePath)
+      : vscode.Uri.file(change.filePath);
+
+    await showDiff(
+      beforeUri,
+      afterUri,
+      `${fileName} (All changes this session)`,
+      change.filePath
+    );
+  }
+
   /**
    * Compare a snapshot version with the current file
    */
@@ -295,44 +994,404 @@ export class ClaudeScmProvider implements vscode.Disposable {
       return;
     }
 
-    const snapshotUri = vscode.Uri.parse(
-      `claude-snapshot:/${sessionId}/${backup.backupFileName}?path=${encodeURIComponent(change.filePath)}`
-    );
+    const snapshotUri = SnapshotFileSystemProvider.createUri(sessionId, backup.backupFileName, change.filePath);
     const currentUri = vscode.Uri.file(change.filePath);
 
-    await vscode.commands.executeCommand(
-      'vscode.diff',
+    await showDiff(
       snapshotUri,
       currentUri,
-      `${path.basename(change.filePath)} (Snapshot vs Current)`
+      `${path.basename(change.filePath)} (Snapshot vs Current)`,
+      change.filePath
     );
   }
 
   /**
-   * Truncate text for display
+   * Restore the file to the state it had before the change's prompt ran
    */
-  private truncateText(text: string, maxLength: number): string {
-    // Remove newlines and normalize whitespace
-    const normalized = text.replace(/\s+/g, ' ').trim();
-    if (normalized.length <= maxLength) {
-      return normalized;
+  private async restoreFile(resource: ClaudeResourceState): Promise<void> {
+    const { change, sessionId } = resource;
+    const fileName = path.basename(change.filePath);
+    const deletes = this.parser.getBeforeContent(change, sessionId) === null;
+
+    let action: string;
+    if (deletes) {
+      action = `delete ${fileName}, which was added`;
+    } else if (change.changeType === 'deleted') {
+      action = `recreate ${fileName}, which was deleted`;
+    } else {
+      action = `restore ${fileName} to its previous version`;
+    }
+
+    const when = change.cumulative ? 'during this session' : `in prompt #${change.promptNumber}`;
+    const confirm = await vscode.window.showWarningMessage(
+      `This will ${action} ${when}. Any later changes to the file will be replaced.`,
+      { modal: true },
+      deletes ? 'Delete File' : 'Restore'
+    );
+    if (confirm !== (deletes ? 'Delete File' : 'Restore')) {
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const canRestore = await this.restorer.addRestoreEdits(edit, change, sessionId);
+    if (!canRestore) {
+      vscode.window.showErrorMessage(
+        this.parser.isBinaryChange(change, sessionId)
+          ? `Cannot restore ${fileName}: restoring binary files is not supported.`
+          : `Cannot restore ${fileName}: no snapshot of its previous content was found.`
+      );
+      return;
+    }
+
+    if (!(await this.restorer.apply(edit))) {
+      vscode.window.showErrorMessage(`Failed to restore ${fileName}.`);
     }
-    return normalized.substring(0, maxLength - 3) + '...';
+  }
+
+  /**
+   * Revert every file change made by a prompt in a single undoable edit
+   */
+  private async revertPrompt(group: vscode.SourceControlResourceGroup): Promise<void> {
+    const session = this.session;
+    const prompt = this.getPromptForGroup(group);
+    if (!session || !prompt) {
+      return;
+    }
+
+    const changes = this.getChangesForPrompt(session, prompt);
+    if (changes.length === 0) {
+      return;
+    }
+
+    // Find files that later prompts changed again - reverting them loses that work
+    const laterEdits = new Map<string, number[]>();
+    for (const laterPrompt of session.prompts) {
+      if (laterPrompt.promptNumber <= prompt.promptNumber) {
+        continue;
+      }
+      // Including files later Bash commands changed
+      for (const laterChange of this.promptChanges.get(laterPrompt.promptNumber) || []) {
+        const key = path.normalize(laterChange.filePath);
+        if (!laterEdits.has(key)) {
+          laterEdits.set(key, []);
+        }
+        laterEdits.get(key)!.push(laterPrompt.promptNumber);
+      }
+    }
+
+    type RevertPickItem = vscode.QuickPickItem & { change: FileChange };
+    const items: RevertPickItem[] = changes.map(change => {
+      const later = laterEdits.get(path.normalize(change.filePath));
+      return {
+        label: `${later ? '$(warning) ' : ''}${path.basename(change.filePath)}`,
+        description: `${change.changeType} · ${vscode.workspace.asRelativePath(change.filePath)}`,
+        detail: later
+          ? `Changed again in prompt ${later.map(n => `#${n}`).join(', ')} - reverting discards those changes`
+          : undefined,
+        picked: true,
+        change,
+      };
+    });
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Revert prompt #${prompt.promptNumber}: "${truncateText(prompt.text, 40)}"`,
+      placeHolder: 'These files will be put back to their state before the prompt',
+      canPickMany: true,
+    });
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    const conflicting = picked.filter(item => laterEdits.has(path.normalize(item.change.filePath)));
+    if (conflicting.length > 0) {
+      const confirm = await vscode.window.showWarningMessage(
+        `${conflicting.length} file${conflicting.length !== 1 ? 's were' : ' was'} edited after prompt #${prompt.promptNumber}. ` +
+          'Reverting will lose that later work.',
+        { modal: true, detail: conflicting.map(item => vscode.workspace.asRelativePath(item.change.filePath)).join('\n') },
+        'Revert Anyway'
+      );
+      if (confirm !== 'Revert Anyway') {
+        return;
+      }
+    }
+
+    const deleting = picked.filter(item => this.parser.getBeforeContent(item.change, session.sessionId) === null);
+    if (deleting.length > 0) {
+      const confirm = await vscode.window.showWarningMessage(
+        `Reverting prompt #${prompt.promptNumber} will delete ${deleting.length} file${deleting.length !== 1 ? 's' : ''} it added.`,
+        { modal: true, detail: deleting.map(item => vscode.workspace.asRelativePath(item.change.filePath)).join('\n') },
+        'Delete and Revert'
+      );
+      if (confirm !== 'Delete and Revert') {
+        return;
+      }
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const skipped: string[] = [];
+    for (const { change } of picked) {
+      if (!(await this.restorer.addRestoreEdits(edit, change, session.sessionId))) {
+        skipped.push(path.basename(change.filePath));
+      }
+    }
+
+    if (skipped.length === picked.length) {
+      vscode.window.showErrorMessage(
+        `Cannot revert prompt #${prompt.promptNumber}: no text snapshot was found for ${skipped.join(', ')}`
+      );
+      return;
+    }
+
+    if (!(await this.restorer.apply(edit))) {
+      vscode.window.showErrorMessage(`Failed to revert prompt #${prompt.promptNumber}.`);
+      return;
+    }
+
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `Reverted prompt #${prompt.promptNumber}, but no text snapshot was found for: ${skipped.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Export a single file change as a patch
+   */
+  private async exportFilePatch(resource: ClaudeResourceState): Promise<void> {
+    const { change, sessionId } = resource;
+    const result = await this.patchExporter.buildPatch([change], sessionId, this.workspaceFolder.uri.fsPath);
+    const fileName = path.basename(change.filePath);
+    const suffix = change.cumulative ? 'session' : `prompt-${change.promptNumber}`;
+    await this.patchExporter.exportPatch(result, `${fileName}-${suffix}.patch`, this.workspaceFolder.uri);
+  }
+
+  /**
+   * Export every change in a resource group as one patch.
+   * For prompt groups this includes the changes made by the prompt's subagents.
+   */
+  private async exportGroupPatch(group: vscode.SourceControlResourceGroup): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    if (group.id === this.sessionGroup.id) {
+      await this.exportSessionPatch();
+      return;
+    }
+
+    const prompt = this.getPromptForGroup(group);
+    const changes = prompt
+      ? this.getChangesForPrompt(session, prompt)
+      : (group.resourceStates as ClaudeResourceState[]).map(resource => resource.change);
+
+    const result = await this.patchExporter.buildPatch(changes, session.sessionId, this.workspaceFolder.uri.fsPath);
+    const fileName = prompt ? `claude-prompt-${prompt.promptNumber}.patch` : `claude-${group.id}.patch`;
+    await this.patchExporter.exportPatch(result, fileName, this.workspaceFolder.uri);
+  }
+
+  /**
+   * Show the full prompt, Claude's reply and the tools it used next to the changes
+   */
+  private async showPromptDetails(group: vscode.SourceControlResourceGroup): Promise<void> {
+    const session = this.session;
+    const prompt = this.getPromptForGroup(group);
+    if (!session || !prompt) {
+      return;
+    }
+
+    const changes = this.getChangesForPrompt(session, prompt);
+    await PromptDetailsPanel.show(prompt, changes, session.sessionId, this.workspaceFolder.uri.fsPath);
+  }
+
+  /**
+   * Stage exactly the changes of a prompt in git, and optionally commit them
+   * with the prompt text as the message
+   */
+  private async stagePrompt(group: vscode.SourceControlResourceGroup, commit: boolean): Promise<void> {
+    const session = this.session;
+    const prompt = this.getPromptForGroup(group);
+    if (!session || !prompt) {
+      return;
+    }
+
+    const folderPath = this.workspaceFolder.uri.fsPath;
+    const laterChanges = session.prompts
+      .filter(p => p.promptNumber > prompt.promptNumber)
+      .flatMap(p => this.promptChanges.get(p.promptNumber) || []);
+    const result = this.gitStager.buildPromptPatch(
+      session,
+      prompt,
+      this.getChangesForPrompt(session, prompt),
+      laterChanges,
+      folderPath
+    );
+    const action = commit ? 'Commit' : 'Stage';
+
+    if (result.conflicts.length > 0) {
+      const excluded = result.conflicts.some(conflict => conflict.excluded);
+      const choice = await vscode.window.showWarningMessage(
+        `Later prompts changed the same ${result.conflicts.length !== 1 ? 'files' : 'file'} as prompt #${prompt.promptNumber}.`,
+        {
+          modal: true,
+          detail: result.conflicts.map(conflict => this.formatConflict(conflict, prompt.promptNumber)).join('\n') +
+            `\n\nOnly prompt #${prompt.promptNumber}'s version of the files is staged; the later changes stay unstaged.` +
+            (excluded ? ' Files without a copy from the end of the prompt are left out.' : ''),
+        },
+        `${action} Anyway`
+      );
+      if (choice !== `${action} Anyway`) {
+        return;
+      }
+    }
+
+    if (!result.patch) {
+      vscode.window.showInformationMessage(
+        result.skipped.length > 0
+          ? `Nothing to stage: no text snapshot found for ${result.skipped.join(', ')}`
+          : result.outside.length > 0
+            ? `Nothing to stage: the files are outside the workspace folder: ${result.outside.join(', ')}`
+            : `Nothing to stage: prompt #${prompt.promptNumber} left no changes.`
+      );
+      return;
+    }
+
+    let message: string | undefined;
+    if (commit) {
+      if (await this.gitStager.hasStagedChanges(folderPath)) {
+        const choice = await vscode.window.showWarningMessage(
+          'Other changes are already staged and would be part of the commit.',
+          { modal: true },
+          'Commit Anyway'
+        );
+        if (choice !== 'Commit Anyway') {
+          return;
+        }
+      }
+
+      const subject = await vscode.window.showInputBox({
+        title: `Commit prompt #${prompt.promptNumber}`,
+        prompt: 'Commit message (the full prompt text is added as the body)',
+        value: this.gitStager.getCommitSubject(prompt),
+        validateInput: value => value.trim() ? undefined : 'The commit message cannot be empty',
+      });
+      if (subject === undefined) {
+        return;
+      }
+      message = this.gitStager.getCommitMessage(prompt, subject.trim());
+    }
+
+    try {
+      await this.gitStager.stagePatch(result.patch, folderPath);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not stage prompt #${prompt.promptNumber}: the staged files do not match their state before the prompt. ` +
+          'Stage or commit the earlier prompts first.',
+        { modal: true, detail: error instanceof Error ? error.message : String(error) }
+      );
+      return;
+    }
+
+    if (message !== undefined) {
+      try {
+        await this.gitStager.commit(message, folderPath);
+        vscode.window.showInformationMessage(`Committed prompt #${prompt.promptNumber}.`);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Prompt #${prompt.promptNumber} was staged, but the commit failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    } else {
+      await this.gitStager.prefillCommitMessage(
+        this.gitStager.getCommitMessage(prompt, this.gitStager.getCommitSubject(prompt)),
+        folderPath
+      );
+      vscode.window.showInformationMessage(`Staged the changes of prompt #${prompt.promptNumber}.`);
+    }
+
+    if (result.skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some files were left out because no text snapshot was found: ${result.skipped.join(', ')}`
+      );
+    }
+    if (result.outside.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some files were left out because they are outside the workspace folder: ${result.outside.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Describe a file changed again by later prompts, for the conflict warning
+   */
+  private formatConflict(conflict: PromptConflict, promptNumber: number): string {
+    const later = conflict.laterPromptNumbers.map(n => `#${n}`).join(', ');
+    if (conflict.excluded) {
+      return `${conflict.filePath}: changed again in ${later}, and no copy from the end of prompt #${promptNumber} was found`;
+    }
+    const lines = conflict.lines.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`));
+    const isSingleLine = lines.length === 1 && conflict.lines[0][0] === conflict.lines[0][1];
+    return `${conflict.filePath}: line${isSingleLine ? '' : 's'} ${lines.join(', ')} changed again in ${later}`;
+  }
+
+  /**
+   * Export the net changes of the whole session as one patch
+   */
+  private async exportSessionPatch(): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      vscode.window.showInformationMessage('No Claude Code session to export.');
+      return;
+    }
+
+    const changes = this.parser.getSessionFileChanges(session, this.promptChanges);
+    const result = await this.patchExporter.buildPatch(changes, session.sessionId, this.workspaceFolder.uri.fsPath);
+    await this.patchExporter.exportPatch(
+      result,
+      `claude-session-${session.sessionId.slice(0, 8)}.patch`,
+      this.workspaceFolder.uri
+    );
+  }
+
+  /**
+   * Find the prompt that a resource group was created for
+   */
+  private getPromptForGroup(group: vscode.SourceControlResourceGroup): ParsedPrompt | undefined {
+    const match = group?.id.match(/^prompt-(\d+)$/);
+    if (!match || !this.session) {
+      return undefined;
+    }
+    const promptNumber = parseInt(match[1], 10);
+    return this.session.prompts.find(p => p.promptNumber === promptNumber);
   }
 
   dispose(): void {
     this.disposeAllGroups();
+    this.sessionGroup.dispose();
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
     this.scm.dispose();
+    this._onDidRefresh.dispose();
+    this._onDidOpenDiff.dispose();
   }
 }
 
 /**
  * Extended resource state with Claude-specific data
  */
-interface ClaudeResourceState extends vscode.SourceControlResourceState {
+export interface ClaudeResourceState extends vscode.SourceControlResourceState {
   change: FileChange;
   sessionId: string;
 }
+
+/**
+ * Resource state of a file in the comparison of two prompts
+ */
+export interface ClaudeComparisonResourceState extends vscode.SourceControlResourceState {
+  comparisonChange: PromptRangeChange;
+  sessionId: string;
+}
+
+/** What the review commands are invoked on */
+type ReviewTarget = ClaudeResourceState | vscode.SourceControlResourceGroup;
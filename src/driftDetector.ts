@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TranscriptParser } from './transcriptParser';
+import { FileChange, ParsedSession } from './types';
+
+/** A file whose content on disk is no longer the version Claude left */
+export interface DriftedFile {
+  /** The last prompt that changed the file */
+  promptNumber: number;
+  /** The file as Claude left it, or null if Claude deleted it */
+  claudeContent: string | null;
+}
+
+/**
+ * Finds files edited by hand after Claude last changed them.
+ *
+ * Claude's version of a file is rebuilt by replaying the last Edit/Write
+ * result of the last prompt that changed it, falling back to that prompt's
+ * after backup. Files whose last change came from a Bash command have no
+ * known version and are never reported.
+ */
+export class DriftDetector {
+  constructor(private parser: TranscriptParser) {}
+
+  /**
+   * Drifted files of a session by normalized path
+   * @param promptChanges Changes of each prompt, by prompt number
+   */
+  detect(session: ParsedSession, promptChanges: Map<number, FileChange[]>): Map<string, DriftedFile> {
+    // The last change Claude made to each file
+    const lastChanges = new Map<string, FileChange>();
+    for (const changes of promptChanges.values()) {
+      for (const change of changes) {
+        const key = path.normalize(change.filePath);
+        const previous = lastChanges.get(key);
+        if (!previous || previous.promptNumber <= change.promptNumber) {
+          lastChanges.set(key, change);
+        }
+      }
+    }
+
+    const drifted = new Map<string, DriftedFile>();
+    for (const [filePath, change] of lastChanges) {
+      const claudeContent = this.getClaudeContent(session, change);
+      if (claudeContent === undefined) {
+        continue;
+      }
+
+      let current: string | null;
+      try {
+        current = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+      } catch {
+        continue;
+      }
+
+      if (current !== claudeContent) {
+        drifted.set(filePath, { promptNumber: change.promptNumber, claudeContent });
+      }
+    }
+    return drifted;
+  }
+
+  /**
+   * The content a change left the file with, or undefined if unknown
+   */
+  private getClaudeContent(session: ParsedSession, change: FileChange): string | null | undefined {
+    if (change.changeType === 'deleted') {
+      return null;
+    }
+    if (change.viaBash) {
+      return undefined;
+    }
+
+    const replayed = this.parser.getEditedContentAtPrompt(session, change.promptNumber, change.filePath);
+    if (replayed !== undefined) {
+      return replayed;
+    }
+
+    const afterBackup = change.afterBackup?.backupFileName;
+    if (afterBackup && afterBackup !== change.beforeBackup?.backupFileName) {
+      return this.parser.readBackupFile(session.sessionId, afterBackup) ?? undefined;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClaudeResourceState, ClaudeScmProvider } from './claudeScmProvider';
+import { FileEdit, ParsedPrompt } from './types';
+import { OriginalContentProvider } from './snapshotFileSystemProvider';
+import { truncateText } from './utils';
+
+/** One Edit/Write call with the content of the file around it */
+interface ReplayStep {
+  edit: FileEdit;
+  prompt: ParsedPrompt;
+  before: string;
+  after: string;
+}
+
+/** The file and edits currently being stepped through */
+interface Replay {
+  filePath: string;
+  steps: ReplayStep[];
+  index: number;
+  /** URI of the right side of the diff currently shown */
+  afterUri?: vscode.Uri;
+}
+
+/**
+ * Replays how Claude changed a file one Edit/Write call at a time.
+ *
+ * The prompt-level diff merges all edits of a prompt; this shows each
+ * tool call as its own diff, with Previous/Next Edit buttons in the
+ * editor title to walk through them.
+ */
+export class EditReplay implements vscode.Disposable {
+  private replay: Replay | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private providers: ClaudeScmProvider[]) {
+    this.disposables.push(
+      vscode.commands.registerCommand('claude-snapshots.stepThroughEdits', (resource: ClaudeResourceState) =>
+        this.stepThroughEdits(resource)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.previousEdit', () => this.move(-1)),
+      vscode.commands.registerCommand('claude-snapshots.nextEdit', () => this.move(1)),
+      // The Previous/Next buttons only apply while a replay diff is in front
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        const active = !!editor && editor.document.uri.toString() === this.replay?.afterUri?.toString();
+        vscode.commands.executeCommand('setContext', 'claudeSnapshots.inEditReplay', active);
+      })
+    );
+  }
+
+  /**
+   * Pick one edit of a file change to start the replay from
+   */
+  private async stepThroughEdits(resource: ClaudeResourceState): Promise<void> {
+    const { change } = resource;
+    const provider = await ClaudeScmProvider.findProvider(this.providers, resource);
+    const session = provider?.getSession();
+    if (!provider || !session || session.sessionId !== resource.sessionId) {
+      return;
+    }
+
+    // Whole-session entries show every prompt's edits of the file. Earlier
+    // prompts are replayed too, as a prompt's edits may build on their content.
+    const prompts = session.prompts.filter(prompt => change.cumulative || prompt.promptNumber <= change.promptNumber);
+    const steps = provider.getParser()
+      .replayFileEdits(prompts, change.filePath)
+      .filter((step): step is ReplayStep =>
+        (change.cumulative || step.prompt.promptNumber === change.promptNumber) &&
+        step.before !== undefined && step.after !== undefined
+      );
+
+    if (steps.length === 0) {
+      vscode.window.showInformationMessage(
+        `The transcript has no replayable edits of ${path.basename(change.filePath)}.`
+      );
+      return;
+    }
+
+    type StepPickItem = vscode.QuickPickItem & { index: number };
+    const picked = await vscode.window.showQuickPick<StepPickItem>(
+      steps.map((step, index) => ({
+        label: `Edit ${index + 1} of ${steps.length}`,
+        description: `#${step.prompt.promptNumber} · ${this.describeEdit(step.edit)}`,
+        detail: truncateText(step.edit.newString ?? step.edit.content ?? '', 80),
+        index,
+      })),
+      { placeHolder: `Step through Claude's edits of ${path.basename(change.filePath)}` }
+    );
+    if (!picked) {
+      return;
+    }
+
+    this.replay = { filePath: change.filePath, steps, index: picked.index };
+    await this.showStep();
+  }
+
+  /**
+   * Show the previous (-1) or next (+1) edit
+   */
+  private async move(delta: number): Promise<void> {
+    if (!this.replay) {
+      return;
+    }
+
+    const index = this.replay.index + delta;
+    if (index < 0 || index >= this.replay.steps.length) {
+      vscode.window.setStatusBarMessage(
+        delta < 0 ? 'Claude Snapshots: this is the first edit' : 'Claude Snapshots: this is the last edit',
+        3000
+      );
+      return;
+    }
+
+    this.replay.index = index;
+    await this.showStep();
+  }
+
+  /**
+   * Open the diff of the current step
+   */
+  private async showStep(): Promise<void> {
+    const replay = this.replay!;
+    const step = replay.steps[replay.index];
+    const beforeUri = OriginalContentProvider.createUri(step.before, replay.filePath);
+    replay.afterUri = OriginalContentProvider.createUri(step.after, replay.filePath);
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      beforeUri,
+      replay.afterUri,
+      `${path.basename(replay.filePath)} (Edit ${replay.index + 1}/${replay.steps.length}, #${step.prompt.promptNumber})`,
+      { preview: true }
+    );
+    await vscode.commands.executeCommand('setContext', 'claudeSnapshots.inEditReplay', true);
+  }
+
+  /**
+   * Short description of an edit, e.g. "Edit at line 40"
+   */
+  private describeEdit(edit: FileEdit): string {
+    const kind = edit.content !== undefined ? 'Write' : edit.replaceAll ? 'Edit (all occurrences)' : 'Edit';
+    const firstHunk = edit.structuredPatch?.[0];
+    return firstHunk ? `${kind} at line ${firstHunk.newStart}` : kind;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
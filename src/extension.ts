@@ -1,17 +1,27 @@
 import * as vscode from 'vscode';
-import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ClaudeScmProvider } from './claudeScmProvider';
+import { BranchTreeProvider } from './branchTreeProvider';
+import { BlameProvider } from './blameProvider';
+import { FileHistoryProvider } from './fileHistoryProvider';
+import { EditReplay } from './editReplay';
+import { SnapshotSearch } from './snapshotSearch';
+import { SessionStatusBar } from './sessionStatusBar';
+import { ReviewComments } from './reviewComments';
+import { findProjectDirectories, getClaudeDataDirectories } from './claudeDataDirectory';
+import { getQuickDiffBaseline } from './claudeQuickDiffProvider';
 import {
   SnapshotFileSystemProvider,
-  SnapshotContentProvider,
   EmptyContentProvider,
   OriginalContentProvider,
+  NotebookContentFileSystemProvider,
 } from './snapshotFileSystemProvider';
 
 let scmProviders: ClaudeScmProvider[] = [];
 let fileWatchers: fs.FSWatcher[] = [];
+let refreshTimeout: NodeJS.Timeout | null = null;
+let rescanTimeout: NodeJS.Timeout | null = null;
 
 /**
  * Extension activation
@@ -27,40 +37,85 @@ export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(
     vscode.workspace.registerFileSystemProvider('claude-snapshot', snapshotFsProvider, {
       isReadonly: true,
+    }),
+    // Notebooks need a file system provider for their original and empty content too
+    vscode.workspace.registerFileSystemProvider('claude-notebook', new NotebookContentFileSystemProvider(), {
+      isReadonly: true,
     })
   );
 
-  // Also register text document content providers as fallback
-  const snapshotContentProvider = new SnapshotContentProvider();
+  // Text document content providers for empty and transcript-recorded content
   const emptyContentProvider = new EmptyContentProvider();
   const originalContentProvider = new OriginalContentProvider();
   context.subscriptions.push(
-    vscode.workspace.registerTextDocumentContentProvider('claude-snapshot-text', snapshotContentProvider),
     vscode.workspace.registerTextDocumentContentProvider('claude-empty', emptyContentProvider),
     vscode.workspace.registerTextDocumentContentProvider('claude-original', originalContentProvider)
   );
 
+  // Commands of the Snapshots view, shared by the providers of all workspace folders
+  context.subscriptions.push(...ClaudeScmProvider.registerCommands(scmProviders));
+
+  // Switch what the editor gutter compares against
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claude-snapshots.toggleQuickDiffBaseline', () => toggleQuickDiffBaseline())
+  );
+
+  // Tree view of conversation branches (including ones abandoned with /rewind)
+  const branchTreeProvider = new BranchTreeProvider(scmProviders);
+  context.subscriptions.push(branchTreeProvider);
+
+  // Every version Claude recorded of a single file
+  const fileHistoryProvider = new FileHistoryProvider(scmProviders);
+  context.subscriptions.push(fileHistoryProvider);
+
+  // Step through a file's individual Edit/Write calls
+  context.subscriptions.push(new EditReplay(scmProviders));
+
+  // Search prompts and changed files across every session
+  context.subscriptions.push(new SnapshotSearch(scmProviders));
+
+  // At-a-glance summary of the current session
+  const sessionStatusBar = new SessionStatusBar(scmProviders);
+  context.subscriptions.push(sessionStatusBar);
+
+  // Review comments on Claude's changes, to send back as the next prompt
+  const reviewComments = new ReviewComments(scmProviders, context.workspaceState);
+  context.subscriptions.push(reviewComments);
+
+  // Line-level attribution of Claude's edits (hover, CodeLens, inline blame)
+  const blameProvider = new BlameProvider(scmProviders);
+  context.subscriptions.push(blameProvider);
+
   // Create SCM providers for each workspace folder
   const workspaceFolders = vscode.workspace.workspaceFolders || [];
 
   for (const folder of workspaceFolders) {
-    const provider = new ClaudeScmProvider(folder, snapshotFsProvider);
+    const provider = new ClaudeScmProvider(folder, snapshotFsProvider, context.workspaceState);
     scmProviders.push(provider);
     context.subscriptions.push(provider);
-
-    // Set up file watcher for this workspace's transcript directory
-    setupTranscriptWatcher(folder.uri.fsPath);
+    branchTreeProvider.watchProvider(provider);
+    blameProvider.watchProvider(provider);
+    fileHistoryProvider.watchProvider(provider);
+    sessionStatusBar.watchProvider(provider);
+    reviewComments.watchProvider(provider);
   }
 
+  // Set up file watchers for the workspace folders' transcript directories
+  setupTranscriptWatchers();
+
   // Watch for workspace folder changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeWorkspaceFolders(event => {
       // Add providers for new folders
       for (const folder of event.added) {
-        const provider = new ClaudeScmProvider(folder, snapshotFsProvider);
+        const provider = new ClaudeScmProvider(folder, snapshotFsProvider, context.workspaceState);
         scmProviders.push(provider);
         context.subscriptions.push(provider);
-        setupTranscriptWatcher(folder.uri.fsPath);
+        branchTreeProvider.watchProvider(provider);
+        blameProvider.watchProvider(provider);
+        fileHistoryProvider.watchProvider(provider);
+        sessionStatusBar.watchProvider(provider);
+        reviewComments.watchProvider(provider);
       }
 
       // Remove providers for removed folders
@@ -73,6 +128,20 @@ export function activate(context: vscode.ExtensionContext): void {
           scmProviders.splice(index, 1);
         }
       }
+
+      setupTranscriptWatchers();
+    })
+  );
+
+  // Watch the new data directories when the setting changes
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (!event.affectsConfiguration('claudeSnapshots.dataDirectory')) {
+        return;
+      }
+
+      setupTranscriptWatchers();
+      refreshAllProviders();
     })
   );
 
@@ -80,45 +149,121 @@ export function activate(context: vscode.ExtensionContext): void {
 }
 
 /**
- * Set up a file watcher for the transcript directory
+ * Set up file watchers for the transcript directories of all workspace folders.
+ * Each projects/ directory is watched too, so that sessions started in a new
+ * folder (which get a project directory of their own) are picked up.
  * Uses Node.js fs.watch for reliable watching outside workspace
  */
-function setupTranscriptWatcher(workspacePath: string): void {
-  const claudeDir = path.join(os.homedir(), '.claude');
-  const encodedPath = workspacePath.replace(/\//g, '-');
-  const projectDir = path.join(claudeDir, 'projects', encodedPath);
-
-  if (!fs.existsSync(projectDir)) {
-    console.log(`Claude Snapshots: No transcript directory found at ${projectDir}`);
-    return;
+function setupTranscriptWatchers(): void {
+  closeTranscriptWatchers();
+
+  const projectDirs = new Set<string>();
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    for (const projectDir of findProjectDirectories(folder.uri.fsPath)) {
+      projectDirs.add(projectDir);
+    }
   }
 
-  try {
-    // Debounce the refresh to avoid too many updates
-    let refreshTimeout: NodeJS.Timeout | null = null;
-    const debouncedRefresh = () => {
-      if (refreshTimeout) {
-        clearTimeout(refreshTimeout);
-      }
-      refreshTimeout = setTimeout(() => {
-        console.log('Claude Snapshots: Transcript changed, refreshing...');
-        refreshAllProviders();
-      }, 500); // 500ms debounce
-    };
-
-    const watcher = fs.watch(projectDir, { persistent: false }, (eventType, filename) => {
-      if (filename && filename.endsWith('.jsonl')) {
+  if (projectDirs.size === 0) {
+    console.log('Claude Snapshots: No transcript directory found for the workspace');
+  }
+
+  for (const projectDir of projectDirs) {
+    watchDirectory(projectDir, filename => {
+      if (filename.endsWith('.jsonl')) {
         debouncedRefresh();
       }
     });
+  }
+
+  for (const claudeDir of getClaudeDataDirectories()) {
+    const projectsDir = path.join(claudeDir, 'projects');
+    if (!fs.existsSync(projectsDir)) {
+      continue;
+    }
+
+    watchDirectory(projectsDir, filename => {
+      if (!projectDirs.has(path.join(projectsDir, filename))) {
+        debouncedRescan();
+      }
+    });
+  }
+}
+
+/**
+ * Watch a directory, calling onChange with the name of each changed entry
+ */
+function watchDirectory(dir: string, onChange: (filename: string) => void): void {
+  try {
+    const watcher = fs.watch(dir, { persistent: false }, (eventType, filename) => {
+      if (filename) {
+        onChange(filename.toString());
+      }
+    });
 
     fileWatchers.push(watcher);
-    console.log(`Claude Snapshots: Watching ${projectDir} for changes`);
+    console.log(`Claude Snapshots: Watching ${dir} for changes`);
   } catch (error) {
-    console.error(`Claude Snapshots: Failed to watch ${projectDir}:`, error);
+    console.error(`Claude Snapshots: Failed to watch ${dir}:`, error);
   }
 }
 
+/**
+ * Refresh all providers once transcript writes settle
+ */
+function debouncedRefresh(): void {
+  if (refreshTimeout) {
+    clearTimeout(refreshTimeout);
+  }
+  refreshTimeout = setTimeout(() => {
+    console.log('Claude Snapshots: Transcript changed, refreshing...');
+    refreshAllProviders();
+  }, 500); // 500ms debounce
+}
+
+/**
+ * Look for new project directories after one was created
+ */
+function debouncedRescan(): void {
+  if (rescanTimeout) {
+    clearTimeout(rescanTimeout);
+  }
+  rescanTimeout = setTimeout(() => {
+    setupTranscriptWatchers();
+    refreshAllProviders();
+  }, 500);
+}
+
+/**
+ * Close all transcript directory watchers
+ */
+function closeTranscriptWatchers(): void {
+  for (const watcher of fileWatchers) {
+    watcher.close();
+  }
+  fileWatchers = [];
+}
+
+/**
+ * Switch the gutter baseline between "before session" and "before latest prompt"
+ */
+async function toggleQuickDiffBaseline(): Promise<void> {
+  const baseline = getQuickDiffBaseline() === 'session' ? 'latestPrompt' : 'session';
+  const config = vscode.workspace.getConfiguration('claudeSnapshots');
+
+  // Write to where the value in effect is defined, or a workspace value would keep overriding it
+  const target = config.inspect('quickDiffBaseline')?.workspaceValue !== undefined
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await config.update('quickDiffBaseline', baseline, target);
+
+  vscode.window.showInformationMessage(
+    baseline === 'session'
+      ? 'Gutter now shows changes since the start of the Claude session.'
+      : 'Gutter now shows changes made by the latest prompt.'
+  );
+}
+
 /**
  * Refresh all SCM providers
  */
@@ -133,10 +278,12 @@ function refreshAllProviders(): void {
  */
 export function deactivate(): void {
   // Close file watchers
-  for (const watcher of fileWatchers) {
-    watcher.close();
+  closeTranscriptWatchers();
+  for (const timeout of [refreshTimeout, rescanTimeout]) {
+    if (timeout) {
+      clearTimeout(timeout);
+    }
   }
-  fileWatchers = [];
 
   for (const provider of scmProviders) {
     provider.dispose();
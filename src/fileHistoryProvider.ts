@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeScmProvider } from './claudeScmProvider';
+import { FileVersion, ParsedSession } from './types';
+import { EmptyContentProvider, OriginalContentProvider, SnapshotFileSystemProvider } from './snapshotFileSystemProvider';
+import { showDiff } from './binaryFiles';
+import { getProviderFor } from './utils';
+
+/** A version of the file shown in the history view */
+interface VersionNode {
+  kind: 'version';
+  version: FileVersion;
+  /** The version before this one, if any */
+  previous?: VersionNode;
+}
+
+/** The file as it is on disk now */
+interface CurrentNode {
+  kind: 'current';
+}
+
+type FileHistoryNode = VersionNode | CurrentNode;
+
+/**
+ * Tree view listing every version Claude recorded of one file during the
+ * current session ("Claude history for this file").
+ *
+ * Clicking a version shows what it changed compared to the version before
+ * it; any two entries can be compared with Select for Compare / Compare
+ * with Selected.
+ */
+export class FileHistoryProvider implements vscode.TreeDataProvider<FileHistoryNode>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<FileHistoryNode | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private treeView: vscode.TreeView<FileHistoryNode>;
+  private disposables: vscode.Disposable[] = [];
+  private filePath: string | undefined;
+  private selectedForCompare: FileHistoryNode | undefined;
+
+  constructor(private providers: ClaudeScmProvider[]) {
+    this.treeView = vscode.window.createTreeView('claudeSnapshots.fileHistory', {
+      treeDataProvider: this,
+    });
+    this.treeView.message = 'Open the history of a file with "Claude History for This File" in the editor context menu.';
+
+    this.disposables.push(
+      this.treeView,
+      vscode.commands.registerCommand('claude-snapshots.showFileHistory', (uri?: vscode.Uri) =>
+        this.showFileHistory(uri)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.openFileVersion', (node: VersionNode) =>
+        this.openVersionDiff(node)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.compareVersionWithCurrent', (node: VersionNode) =>
+        this.compare(node, { kind: 'current' })
+      ),
+      vscode.commands.registerCommand('claude-snapshots.selectVersionForCompare', (node: FileHistoryNode) =>
+        this.selectForCompare(node)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.compareVersionWithSelected', (node: FileHistoryNode) =>
+        this.selectedForCompare && this.compare(this.selectedForCompare, node)
+      )
+    );
+  }
+
+  /**
+   * Refresh the tree whenever a provider reloads its session
+   */
+  watchProvider(provider: ClaudeScmProvider): void {
+    this.disposables.push(provider.onDidRefresh(() => this._onDidChangeTreeData.fire(undefined)));
+  }
+
+  getTreeItem(node: FileHistoryNode): vscode.TreeItem {
+    if (node.kind === 'current') {
+      const item = new vscode.TreeItem('Current file', vscode.TreeItemCollapsibleState.None);
+      item.description = 'on disk';
+      item.iconPath = new vscode.ThemeIcon('file');
+      item.contextValue = 'claudeFileHistoryCurrent';
+      if (this.filePath) {
+        item.command = { command: 'vscode.open', title: 'Open File', arguments: [vscode.Uri.file(this.filePath)] };
+      }
+      return item;
+    }
+
+    const { version } = node;
+    const item = new vscode.TreeItem(
+      version.version === 0 ? 'Original' : `v${version.version}`,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = `${version.position} #${version.promptNumber}: ${version.promptText.replace(/\s+/g, ' ').trim()}`;
+    item.tooltip = new vscode.MarkdownString()
+      .appendMarkdown(`**${version.position === 'after' ? 'After' : 'Before'} prompt #${version.promptNumber}** · `)
+      .appendText(version.time.toLocaleString())
+      .appendMarkdown('\n\n')
+      .appendText(version.promptText);
+    item.iconPath = new vscode.ThemeIcon(version.position === 'after' ? 'git-commit' : 'circle-outline');
+    item.contextValue = 'claudeFileVersion';
+    item.command = {
+      command: 'claude-snapshots.openFileVersion',
+      title: 'View Changes',
+      arguments: [node],
+    };
+    return item;
+  }
+
+  getChildren(node?: FileHistoryNode): FileHistoryNode[] {
+    if (node || !this.filePath) {
+      return [];
+    }
+
+    const session = this.getSession(this.filePath);
+    const versions = session
+      ? getProviderFor(this.providers, vscode.Uri.file(this.filePath))!.getParser().getFileVersions(session, this.filePath)
+      : [];
+    if (versions.length === 0) {
+      this.treeView.message = `Claude did not change ${path.basename(this.filePath)} in the current session.`;
+      return [];
+    }
+    this.treeView.message = undefined;
+
+    // Newest first, each version linked to the one before it
+    const nodes: VersionNode[] = [];
+    for (const version of versions) {
+      nodes.push({ kind: 'version', version, previous: nodes[nodes.length - 1] });
+    }
+    return [{ kind: 'current' }, ...nodes.reverse()];
+  }
+
+  /**
+   * Show the history of a file (the active editor's file by default)
+   */
+  private async showFileHistory(uri?: vscode.Uri): Promise<void> {
+    const fileUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!fileUri || fileUri.scheme !== 'file') {
+      vscode.window.showInformationMessage('Open a file to see its Claude history.');
+      return;
+    }
+
+    this.filePath = fileUri.fsPath;
+    this.selectedForCompare = undefined;
+    await vscode.commands.executeCommand('setContext', 'claudeSnapshots.fileHistoryHasSelection', false);
+    this.treeView.description = path.basename(this.filePath);
+    this._onDidChangeTreeData.fire(undefined);
+    await vscode.commands.executeCommand('claudeSnapshots.fileHistory.focus');
+  }
+
+  /**
+   * Show what a version changed compared to the version before it
+   */
+  private async openVersionDiff(node: VersionNode): Promise<void> {
+    if (!node.previous) {
+      await vscode.commands.executeCommand('vscode.open', this.getUri(node));
+      return;
+    }
+    await this.compare(node.previous, node);
+  }
+
+  /**
+   * Remember a version to compare another one with
+   */
+  private async selectForCompare(node: FileHistoryNode): Promise<void> {
+    this.selectedForCompare = node;
+    await vscode.commands.executeCommand('setContext', 'claudeSnapshots.fileHistoryHasSelection', true);
+  }
+
+  /**
+   * Diff two entries of the history
+   */
+  private async compare(left: FileHistoryNode, right: FileHistoryNode): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    await showDiff(
+      this.getUri(left),
+      this.getUri(right),
+      `${path.basename(this.filePath)} (${this.getLabel(left)} ↔ ${this.getLabel(right)})`,
+      this.filePath
+    );
+  }
+
+  /**
+   * URI of an entry's content
+   */
+  private getUri(node: FileHistoryNode): vscode.Uri {
+    const filePath = this.filePath!;
+    if (node.kind === 'current') {
+      return fs.existsSync(filePath)
+        ? vscode.Uri.file(filePath)
+        : EmptyContentProvider.createUri(filePath);
+    }
+
+    const { version } = node;
+    if (version.backupFileName) {
+      const sessionId = this.getSession(filePath)?.sessionId || '';
+      return SnapshotFileSystemProvider.createUri(sessionId, version.backupFileName, filePath);
+    }
+    return OriginalContentProvider.createUri(version.content ?? '', filePath);
+  }
+
+  /**
+   * Short label of an entry for diff titles
+   */
+  private getLabel(node: FileHistoryNode): string {
+    if (node.kind === 'current') {
+      return 'current';
+    }
+    return node.version.version === 0 ? 'original' : `v${node.version.version}`;
+  }
+
+  /**
+   * The session of the workspace folder containing a file
+   */
+  private getSession(filePath: string): ParsedSession | null {
+    return getProviderFor(this.providers, vscode.Uri.file(filePath))?.getSession() ?? null;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this._onDidChangeTreeData.dispose();
+  }
+}
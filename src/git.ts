@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+
+/**
+ * Run git in a folder, resolving with its output.
+ * Uses the git binary configured for VS Code's Git extension, if any.
+ * Rejects with git's error output when it exits with an error.
+ */
+export function runGit(args: string[], cwd: string, input?: string): Promise<string> {
+  const configured = vscode.workspace.getConfiguration('git').get<unknown>('path');
+  const gitPath = typeof configured === 'string' && configured ? configured : 'git';
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(gitPath, args, { cwd });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', data => (stdout += data));
+    child.stderr.on('data', data => (stderr += data));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(stderr.trim() || `git ${args[0]} exited with code ${code}`));
+      }
+    });
+    // git may exit before reading its input (e.g. on a bad repository); the close handler reports that
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Path of a folder relative to the top of its git repository, with a
+ * trailing slash ('' at the top level)
+ */
+export async function getRepositoryPrefix(folderPath: string): Promise<string> {
+  return (await runGit(['rev-parse', '--show-prefix'], folderPath)).trim();
+}
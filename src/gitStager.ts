@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TranscriptParser } from './transcriptParser';
+import { FileChange, ParsedPrompt, ParsedSession } from './types';
+import { createFilePatch, diffLines, splitLines } from './unifiedDiff';
+import { getRepositoryPrefix, runGit } from './git';
+
+/** A file of a prompt that later prompts changed again */
+export interface PromptConflict {
+  /** Path relative to the workspace folder */
+  filePath: string;
+  /** Later prompts that changed the file */
+  laterPromptNumbers: number[];
+  /** 1-based line ranges (in the file as the prompt left it) changed by both, if known */
+  lines: Array<[number, number]>;
+  /**
+   * Whether the file was left out of the patch because its content at the
+   * end of the prompt is unknown
+   */
+  excluded: boolean;
+}
+
+/** The parts of the built-in Git extension's API used here */
+interface GitExtension {
+  getAPI(version: 1): {
+    repositories: Array<{ rootUri: vscode.Uri; inputBox: { value: string } }>;
+  };
+}
+
+/** Patch of one prompt's changes, ready for the git index */
+export interface PromptPatch {
+  patch: string;
+  /** Files left out because their content before or after the prompt is unknown, or binary */
+  skipped: string[];
+  /** Files left out because they are outside the workspace folder */
+  outside: string[];
+  conflicts: PromptConflict[];
+}
+
+/**
+ * Stages and commits exactly one prompt's changes with the local git binary.
+ *
+ * The patch goes from each file's state before the prompt to its state at
+ * the end of the prompt, so changes of later prompts stay in the working
+ * tree only. Files later prompts changed again are reported as conflicts.
+ */
+export class GitStager {
+  constructor(private parser: TranscriptParser) {}
+
+  /**
+   * Build the patch of a prompt's changes
+   * @param laterChanges Changes of the prompts after it
+   * @param rootPath Workspace folder the patch paths are relative to
+   */
+  buildPromptPatch(
+    session: ParsedSession,
+    prompt: ParsedPrompt,
+    changes: FileChange[],
+    laterChanges: FileChange[],
+    rootPath: string
+  ): PromptPatch {
+    const parts: string[] = [];
+    const skipped: string[] = [];
+    const outside: string[] = [];
+    const conflicts: PromptConflict[] = [];
+
+    for (const change of changes) {
+      const relativePath = path.relative(rootPath, change.filePath).split(path.sep).join('/');
+      if (relativePath === '..' || relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+        outside.push(change.filePath);
+        continue;
+      }
+
+      const before = this.parser.getBeforeContent(change, session.sessionId);
+      if (before === undefined || this.parser.isBinaryChange(change, session.sessionId)) {
+        skipped.push(relativePath);
+        continue;
+      }
+
+      const filePath = path.normalize(change.filePath);
+      const later = laterChanges.filter(c => path.normalize(c.filePath) === filePath);
+      const laterPromptNumbers = Array.from(new Set(later.map(c => c.promptNumber)));
+
+      // The file on disk may hold the user's own edits, so it is never used here
+      const after = this.getContentAtEndOfPrompt(change, session);
+      if (after === undefined) {
+        if (later.length > 0) {
+          conflicts.push({ filePath: relativePath, laterPromptNumbers, lines: [], excluded: true });
+        } else {
+          skipped.push(relativePath);
+        }
+        continue;
+      }
+
+      if (later.length > 0) {
+        const latest = this.parser.getAfterContent(later[later.length - 1], session.sessionId);
+        const lines = this.findOverlappingLines(before, after, latest);
+        if (lines.length > 0) {
+          conflicts.push({ filePath: relativePath, laterPromptNumbers, lines, excluded: false });
+        }
+      }
+
+      parts.push(createFilePatch(relativePath, before, after));
+    }
+
+    return { patch: parts.join(''), skipped, outside, conflicts };
+  }
+
+  /**
+   * Whether the index already holds staged changes
+   */
+  async hasStagedChanges(folderPath: string): Promise<boolean> {
+    try {
+      await runGit(['diff', '--cached', '--quiet'], folderPath);
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Apply a patch to the index, leaving the working tree untouched.
+   * Throws with git's message when the patch does not apply.
+   */
+  async stagePatch(patch: string, folderPath: string): Promise<void> {
+    // The patch paths are relative to the workspace folder, git expects them relative to the repository
+    const prefix = await getRepositoryPrefix(folderPath);
+    const args = ['apply', '--cached', '--whitespace=nowarn', ...(prefix ? [`--directory=${prefix}`] : [])];
+
+    await runGit([...args, '--check', '-'], folderPath, patch);
+    await runGit([...args, '-'], folderPath, patch);
+  }
+
+  /**
+   * Commit the index
+   */
+  async commit(message: string, folderPath: string): Promise<void> {
+    await runGit(['commit', '--file=-'], folderPath, message);
+  }
+
+  /**
+   * Subject line of a prompt's commit: the first line of the prompt
+   */
+  getCommitSubject(prompt: ParsedPrompt): string {
+    const [firstLine] = prompt.text.trim().split('\n');
+    return firstLine.length > 72 ? firstLine.substring(0, 69).trimEnd() + '...' : firstLine;
+  }
+
+  /**
+   * Commit message of a prompt, with the full prompt text as the body when
+   * the subject does not hold all of it
+   */
+  getCommitMessage(prompt: ParsedPrompt, subject: string): string {
+    const text = prompt.text.trim();
+    return text === this.getCommitSubject(prompt) ? `${subject}\n` : `${subject}\n\n${text}\n`;
+  }
+
+  /**
+   * Put a commit message in the Git view's message box, if the built-in Git
+   * extension knows the repository
+   */
+  async prefillCommitMessage(message: string, folderPath: string): Promise<void> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+      return;
+    }
+
+    try {
+      const git = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+      const folder = path.normalize(folderPath);
+      const repository = git.repositories.find(repo => {
+        const root = path.normalize(repo.rootUri.fsPath);
+        return folder === root || folder.startsWith(root + path.sep);
+      });
+      if (repository) {
+        repository.inputBox.value = message;
+      }
+    } catch {
+      // The Git extension is disabled or failed to start
+    }
+  }
+
+  /**
+   * The content of a file at the end of a prompt, independent of later
+   * prompts and of the user's edits: the prompt's own after backup, or a
+   * replay of Claude's edits
+   */
+  private getContentAtEndOfPrompt(change: FileChange, session: ParsedSession): string | null | undefined {
+    if (change.changeType === 'deleted') {
+      return null;
+    }
+
+    const afterBackup = change.afterBackup?.backupFileName;
+    if (afterBackup && afterBackup !== change.beforeBackup?.backupFileName) {
+      const content = this.parser.readBackupFile(session.sessionId, afterBackup);
+      if (content !== null) {
+        return content;
+      }
+    }
+
+    // Files changed by Bash commands have no edits to replay
+    return change.viaBash ? undefined : this.parser.getEditedContentAtPrompt(session, change.promptNumber, change.filePath);
+  }
+
+  /**
+   * Lines changed by both the prompt and later prompts, as 1-based ranges of
+   * the file as the prompt left it
+   */
+  private findOverlappingLines(before: string | null, after: string | null, latest: string | null): Array<[number, number]> {
+    const afterLines = splitLines(after ?? '');
+    const latestLines = splitLines(latest ?? '');
+
+    // Lines the prompt wrote, and the positions of lines it removed
+    const changedByPrompt = new Set<number>();
+    for (const op of diffLines(splitLines(before ?? ''), afterLines)) {
+      if (op.type !== 'equal') {
+        changedByPrompt.add(op.newIndex);
+      }
+    }
+
+    // Lines of that version that later prompts removed or inserted next to
+    const overlapping = new Set<number>();
+    for (const op of diffLines(afterLines, latestLines)) {
+      if (op.type !== 'equal' && changedByPrompt.has(op.oldIndex)) {
+        overlapping.add(op.oldIndex);
+      }
+    }
+
+    const ranges: Array<[number, number]> = [];
+    for (const index of Array.from(overlapping).sort((a, b) => a - b)) {
+      const last = ranges[ranges.length - 1];
+      if (last && last[1] === index) {
+        last[1] = index + 1;
+      } else {
+        ranges.push([index + 1, index + 1]);
+      }
+    }
+    return ranges;
+  }
+}
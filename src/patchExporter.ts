@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TranscriptParser } from './transcriptParser';
+import { FileChange } from './types';
+import { createFilePatch } from './unifiedDiff';
+import { getRepositoryPrefix } from './git';
+
+/** Result of building a patch from file changes */
+export interface PatchResult {
+  patch: string;
+  /** Files left out because their previous content is unknown or binary */
+  skipped: string[];
+  /** Files left out because they are outside the workspace folder */
+  outside: string[];
+}
+
+/**
+ * Builds git-applicable patches from Claude file changes and exports them
+ * to a .patch file or the clipboard
+ */
+export class PatchExporter {
+  constructor(private parser: TranscriptParser) {}
+
+  /**
+   * Build one patch covering all given changes.
+   * Paths are relative to the top of the git repository holding the
+   * workspace folder, or to the folder itself outside a repository.
+   * @param folderPath The workspace folder
+   */
+  async buildPatch(changes: FileChange[], sessionId: string, folderPath: string): Promise<PatchResult> {
+    const parts: string[] = [];
+    const skipped: string[] = [];
+    const outside: string[] = [];
+
+    let prefix = '';
+    try {
+      prefix = await getRepositoryPrefix(folderPath);
+    } catch {
+      // Not a git repository, or git is not installed
+    }
+
+    for (const change of changes) {
+      const relativePath = path.relative(folderPath, change.filePath).split(path.sep).join('/');
+      if (relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+        outside.push(change.filePath);
+        continue;
+      }
+
+      const before = this.parser.getBeforeContent(change, sessionId);
+
+      // Binary files cannot be expressed as text hunks
+      if (before === undefined || this.parser.isBinaryChange(change, sessionId)) {
+        skipped.push(relativePath);
+        continue;
+      }
+
+      const after = this.parser.getAfterContent(change, sessionId);
+      const filePatch = createFilePatch(prefix + relativePath, before, after);
+      if (filePatch) {
+        parts.push(filePatch);
+      }
+    }
+
+    return { patch: parts.join(''), skipped, outside };
+  }
+
+  /**
+   * Let the user save a patch to a file or copy it to the clipboard
+   */
+  async exportPatch(result: PatchResult, defaultFileName: string, folder: vscode.Uri): Promise<void> {
+    if (!result.patch) {
+      vscode.window.showInformationMessage(
+        result.skipped.length > 0
+          ? `Nothing to export: no text snapshot found for ${result.skipped.join(', ')}`
+          : result.outside.length > 0
+            ? `Nothing to export: the files are outside the workspace folder: ${result.outside.join(', ')}`
+            : 'Nothing to export: the files have no changes.'
+      );
+      return;
+    }
+
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: '$(save) Save as .patch File...', id: 'save' },
+        { label: '$(clippy) Copy to Clipboard', id: 'clipboard' },
+      ],
+      { placeHolder: 'Export patch' }
+    );
+    if (!choice) {
+      return;
+    }
+
+    if (choice.id === 'clipboard') {
+      await vscode.env.clipboard.writeText(result.patch);
+      vscode.window.showInformationMessage('Patch copied to clipboard.');
+    } else {
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(folder, defaultFileName),
+        filters: { Patch: ['patch', 'diff'] },
+      });
+      if (!target) {
+        return;
+      }
+      await vscode.workspace.fs.writeFile(target, Buffer.from(result.patch, 'utf-8'));
+      vscode.window.showInformationMessage(`Patch saved to ${path.basename(target.fsPath)}.`);
+    }
+
+    if (result.skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some files were left out of the patch because no snapshot was found: ${result.skipped.join(', ')}`
+      );
+    }
+    if (result.outside.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some files were left out of the patch because they are outside the workspace folder: ${result.outside.join(', ')}`
+      );
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileChange, ParsedPrompt, ToolCall } from './types';
+
+/** Longest tool input shown in full; longer inputs (e.g. Write content) are cut */
+const MAX_TOOL_INPUT_LENGTH = 2000;
+
+/**
+ * Webview showing why a prompt's changes happened: the full prompt,
+ * Claude's final reply, the tools it called and the files it changed.
+ *
+ * A single panel is reused and updated for each prompt shown.
+ */
+export class PromptDetailsPanel {
+  private static current: PromptDetailsPanel | undefined;
+
+  private constructor(private panel: vscode.WebviewPanel) {
+    panel.onDidDispose(() => {
+      PromptDetailsPanel.current = undefined;
+    });
+  }
+
+  /**
+   * Show the details of a prompt, reusing the open panel if there is one
+   */
+  static async show(prompt: ParsedPrompt, changes: FileChange[], sessionId: string, rootPath: string): Promise<void> {
+    if (!PromptDetailsPanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        'claudeSnapshots.promptDetails',
+        'Prompt Details',
+        vscode.ViewColumn.Beside,
+        // Only the file links may run a command; the page shows text written by Claude
+        { enableCommandUris: ['claude-snapshots.openDiff'] }
+      );
+      PromptDetailsPanel.current = new PromptDetailsPanel(panel);
+    }
+
+    const { panel } = PromptDetailsPanel.current;
+    panel.title = `Prompt #${prompt.promptNumber}`;
+    panel.webview.html = PromptDetailsPanel.renderHtml(panel.webview, prompt, changes, sessionId, rootPath);
+    panel.reveal(undefined, true);
+  }
+
+  /**
+   * Build the page for a prompt
+   */
+  private static renderHtml(
+    webview: vscode.Webview,
+    prompt: ParsedPrompt,
+    changes: FileChange[],
+    sessionId: string,
+    rootPath: string
+  ): string {
+    const duration = prompt.endTime.getTime() - prompt.timestamp.getTime();
+
+    const files = changes.map(change => {
+      const args = encodeURIComponent(JSON.stringify([{ change, sessionId }]));
+      const relativePath = path.relative(rootPath, change.filePath) || change.filePath;
+      return `<li><a href="command:claude-snapshots.openDiff?${args}">${escapeHtml(relativePath)}</a> ` +
+        `<span class="muted">${change.changeType}${change.subagent ? ` · subagent "${escapeHtml(change.subagent.description)}"` : ''}</span></li>`;
+    });
+
+    const tools = prompt.toolCalls.map(call =>
+      `<details><summary><code>${escapeHtml(call.name)}</code> ${escapeHtml(describeToolCall(call))}</summary>` +
+      `<pre>${escapeHtml(formatToolInput(call.input))}</pre></details>`
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} data:;">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h2 { border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .message { white-space: pre-wrap; word-break: break-word; padding: 8px 12px; background: var(--vscode-textBlockQuote-background); border-left: 3px solid var(--vscode-textBlockQuote-border); }
+    pre { white-space: pre-wrap; word-break: break-word; background: var(--vscode-textCodeBlock-background); padding: 8px; }
+    details { margin: 4px 0; }
+    summary { cursor: pointer; }
+  </style>
+</head>
+<body>
+  <h1>Prompt #${prompt.promptNumber}</h1>
+  <p class="muted">${escapeHtml(prompt.timestamp.toLocaleString())} · took ${formatDuration(duration)}</p>
+
+  <h2>Prompt</h2>
+  <div class="message">${renderMessage(prompt.text)}</div>
+
+  <h2>Claude's reply</h2>
+  ${prompt.assistantText
+    ? `<div class="message">${renderMessage(prompt.assistantText)}</div>`
+    : '<p class="muted">No text reply.</p>'}
+
+  <h2>Files changed (${changes.length})</h2>
+  ${files.length > 0 ? `<ul>${files.join('\n')}</ul>` : '<p class="muted">No files changed.</p>'}
+
+  <h2>Tools called (${prompt.toolCalls.length})</h2>
+  ${tools.length > 0 ? tools.join('\n') : '<p class="muted">No tools called.</p>'}
+</body>
+</html>`;
+  }
+}
+
+/**
+ * Render a prompt or reply as escaped text, with fenced code blocks set
+ * apart. Markdown is not rendered to HTML: the text may come from a prompt
+ * injection, and links in it must not be able to run commands.
+ */
+function renderMessage(text: string): string {
+  return text
+    .split(/^```[^\n]*$/m)
+    .map((part, index) => (index % 2 === 1 ? `<pre>${escapeHtml(part.replace(/^\n|\n$/g, ''))}</pre>` : escapeHtml(part)))
+    .join('');
+}
+
+/**
+ * One-line summary of a tool call, e.g. the file or command it worked on
+ */
+function describeToolCall(call: ToolCall): string {
+  const input = call.input;
+  const summary = input.file_path ?? input.notebook_path ?? input.command ?? input.pattern ?? input.description ?? input.url;
+  return typeof summary === 'string' ? summary.replace(/\s+/g, ' ').trim() : '';
+}
+
+/**
+ * Pretty-print a tool input, cutting very long values
+ */
+function formatToolInput(input: Record<string, unknown>): string {
+  const json = JSON.stringify(input, null, 2);
+  return json.length > MAX_TOOL_INPUT_LENGTH
+    ? `${json.substring(0, MAX_TOOL_INPUT_LENGTH)}\n… (${json.length - MAX_TOOL_INPUT_LENGTH} more characters)`
+    : json;
+}
+
+/**
+ * Format a duration in milliseconds, e.g. "2m 5s"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
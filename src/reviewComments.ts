@@ -0,0 +1,434 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ClaudeScmProvider } from './claudeScmProvider';
+import { OriginalContentProvider, getBeforeUri } from './snapshotFileSystemProvider';
+import { getProviderFor } from './utils';
+
+/** Key under which comment threads are stored in workspace state */
+const STATE_KEY = 'claude-snapshots.reviewComments';
+
+/** Schemes of the documents a diff of a change can show */
+const SNAPSHOT_SCHEMES = new Set(['claude-snapshot', 'claude-original']);
+
+/** A comment thread as stored in workspace state */
+interface StoredThread {
+  id: string;
+  /**
+   * URI of the commented document. Absent for content recorded in the
+   * transcript, which is too large to store and is rebuilt from the prompt.
+   */
+  uri?: string;
+  /** Side of the prompt's diff that transcript content was shown on */
+  side?: 'before' | 'after';
+  filePath: string;
+  promptNumber: number;
+  startLine: number;
+  endLine: number;
+  comments: string[];
+}
+
+/** The session and prompt a comment thread belongs to */
+interface ThreadContext {
+  id: string;
+  sessionId: string;
+  promptNumber: number;
+  filePath: string;
+}
+
+/**
+ * Review comments on Claude's changes.
+ *
+ * Comments can be left on either side of a change's diff, and on workspace
+ * files Claude changed. Each thread belongs to a session and prompt, and is
+ * stored in workspace state so it survives restarts; threads are shown while
+ * their session is shown in the Snapshots view.
+ *
+ * "Copy Review Comments as Prompt" turns the threads of the shown sessions
+ * into one Markdown message to paste back into Claude Code.
+ */
+export class ReviewComments implements vscode.Disposable {
+  private controller: vscode.CommentController;
+  private threads = new Map<vscode.CommentThread, ThreadContext>();
+  /** The prompt whose diff was last opened, by file */
+  private lastOpened = new Map<string, { sessionId: string; promptNumber: number }>();
+  /** Sessions whose threads moved with edits and are not stored yet */
+  private unsavedSessionIds = new Set<string>();
+  private saveTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private providers: ClaudeScmProvider[],
+    private workspaceState: vscode.Memento
+  ) {
+    this.controller = vscode.comments.createCommentController('claude-snapshots-review', 'Claude Review');
+    this.controller.commentingRangeProvider = {
+      provideCommentingRanges: document => this.provideCommentingRanges(document),
+    };
+
+    this.disposables.push(
+      this.controller,
+      vscode.commands.registerCommand('claude-snapshots.addReviewComment', (reply: vscode.CommentReply) =>
+        this.addComment(reply)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.deleteReviewThread', (thread: vscode.CommentThread) =>
+        this.deleteThread(thread)
+      ),
+      vscode.commands.registerCommand('claude-snapshots.exportReviewComments', () => this.exportComments()),
+      // Threads move with the lines they are on as the document is edited
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleSave(event.document.uri))
+    );
+  }
+
+  /**
+   * Track the diffs a provider opens, and show the threads of its session
+   */
+  watchProvider(provider: ClaudeScmProvider): void {
+    this.disposables.push(
+      provider.onDidOpenDiff(({ change, sessionId }) => {
+        const promptNumber = change.cumulative
+          ? provider.getLastPromptChanging(change.filePath) ?? change.promptNumber
+          : change.promptNumber;
+        this.lastOpened.set(path.normalize(change.filePath), { sessionId, promptNumber });
+      }),
+      provider.onDidRefresh(() => this.syncThreads())
+    );
+    this.syncThreads();
+  }
+
+  /**
+   * Any line can be commented on in snapshots, and in workspace files the
+   * shown session changed
+   */
+  private provideCommentingRanges(document: vscode.TextDocument): vscode.Range[] {
+    if (!this.resolveContext(document.uri)) {
+      return [];
+    }
+    return [new vscode.Range(0, 0, Math.max(document.lineCount - 1, 0), 0)];
+  }
+
+  /**
+   * Add a comment, starting a new thread if needed
+   */
+  private async addComment(reply: vscode.CommentReply): Promise<void> {
+    const { thread, text } = reply;
+    let context = this.threads.get(thread);
+    if (!context) {
+      const resolved = this.resolveContext(thread.uri);
+      if (!resolved) {
+        thread.dispose();
+        vscode.window.showWarningMessage('Comments can only be left on files changed in the Claude session shown.');
+        return;
+      }
+      context = { id: crypto.randomUUID(), ...resolved };
+      this.threads.set(thread, context);
+    }
+
+    thread.comments = [...thread.comments, this.createComment(text)];
+    this.decorateThread(thread, context);
+    await this.save(context.sessionId);
+  }
+
+  /**
+   * Delete a thread and all its comments
+   */
+  private async deleteThread(thread: vscode.CommentThread): Promise<void> {
+    const context = this.threads.get(thread);
+    this.threads.delete(thread);
+    thread.dispose();
+    if (context) {
+      await this.save(context.sessionId);
+    }
+  }
+
+  /**
+   * Copy the comments of the shown sessions to the clipboard as a prompt,
+   * and open it for a last look
+   */
+  private async exportComments(): Promise<void> {
+    const sessionIds = this.getShownSessionIds();
+    const threads = Array.from(this.threads.entries())
+      .filter(([thread, context]) => sessionIds.has(context.sessionId) && thread.comments.length > 0)
+      .sort(([a, contextA], [b, contextB]) =>
+        contextA.promptNumber - contextB.promptNumber ||
+        contextA.filePath.localeCompare(contextB.filePath) ||
+        this.getStartLine(a) - this.getStartLine(b)
+      );
+
+    if (threads.length === 0) {
+      vscode.window.showInformationMessage('No review comments to copy.');
+      return;
+    }
+
+    const lines = ['Please address these review comments on your changes:', ''];
+    let heading = '';
+    for (const [thread, context] of threads) {
+      const fileHeading = `## ${this.getDisplayPath(context.filePath)} (prompt #${context.promptNumber})`;
+      if (fileHeading !== heading) {
+        if (heading) {
+          lines.push('');
+        }
+        lines.push(fileHeading, '');
+        heading = fileHeading;
+      }
+
+      const lineLabel = this.formatLineRange(thread);
+      const version = SNAPSHOT_SCHEMES.has(thread.uri.scheme) ? ' (in a snapshot, not the current file)' : '';
+      const [first, ...replies] = thread.comments.map(comment => this.getBody(comment));
+      lines.push(`- ${lineLabel}${version}: ${first}`);
+      for (const reply of replies) {
+        lines.push(`  - ${reply}`);
+      }
+    }
+
+    const markdown = lines.join('\n') + '\n';
+    await vscode.env.clipboard.writeText(markdown);
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+    await vscode.window.showTextDocument(document, { preview: true });
+    vscode.window.showInformationMessage(
+      `Copied ${threads.length} review comment${threads.length !== 1 ? 's' : ''} - paste them into Claude Code.`
+    );
+  }
+
+  /**
+   * Find the session and prompt a comment on a document belongs to: the
+   * prompt whose diff was opened for the file, or else the last prompt of the
+   * shown session that changed it
+   */
+  private resolveContext(uri: vscode.Uri): Omit<ThreadContext, 'id'> | undefined {
+    let filePath: string;
+    if (uri.scheme === 'file') {
+      filePath = uri.fsPath;
+    } else if (SNAPSHOT_SCHEMES.has(uri.scheme) && uri.query.startsWith('path=')) {
+      filePath = uri.query.slice('path='.length);
+    } else {
+      return undefined;
+    }
+
+    const provider = getProviderFor(this.providers, vscode.Uri.file(filePath));
+    const session = provider?.getSession();
+    if (!provider || !session) {
+      return undefined;
+    }
+
+    const opened = this.lastOpened.get(path.normalize(filePath));
+    if (opened && opened.sessionId === session.sessionId) {
+      return { sessionId: session.sessionId, promptNumber: opened.promptNumber, filePath };
+    }
+
+    const promptNumber = provider.getLastPromptChanging(filePath);
+    return promptNumber === undefined ? undefined : { sessionId: session.sessionId, promptNumber, filePath };
+  }
+
+  /**
+   * Store the threads on a document once edits to it settle
+   */
+  private scheduleSave(uri: vscode.Uri): void {
+    for (const [thread, context] of this.threads) {
+      if (thread.uri.toString() === uri.toString()) {
+        this.unsavedSessionIds.add(context.sessionId);
+      }
+    }
+    if (this.unsavedSessionIds.size === 0) {
+      return;
+    }
+
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => this.saveMovedThreads(), 1000);
+  }
+
+  /**
+   * Store the sessions whose threads moved since they were last stored
+   */
+  private async saveMovedThreads(): Promise<void> {
+    const sessionIds = Array.from(this.unsavedSessionIds);
+    this.unsavedSessionIds.clear();
+    for (const sessionId of sessionIds) {
+      await this.save(sessionId);
+    }
+  }
+
+  /**
+   * Show the stored threads of the shown sessions and hide the others
+   */
+  private async syncThreads(): Promise<void> {
+    const sessionIds = this.getShownSessionIds();
+
+    // Threads about to be hidden may have moved since they were stored
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = undefined;
+    }
+    await this.saveMovedThreads();
+
+    for (const [thread, context] of this.threads) {
+      if (!sessionIds.has(context.sessionId)) {
+        this.threads.delete(thread);
+        thread.dispose();
+      }
+    }
+
+    const shownIds = new Set(Array.from(this.threads.values(), context => context.id));
+    const stored = this.getStoredThreads();
+    for (const sessionId of sessionIds) {
+      for (const storedThread of stored[sessionId] || []) {
+        if (shownIds.has(storedThread.id)) {
+          continue;
+        }
+        const thread = this.controller.createCommentThread(
+          this.getStoredThreadUri(storedThread, sessionId),
+          new vscode.Range(storedThread.startLine, 0, storedThread.endLine, 0),
+          storedThread.comments.map(body => this.createComment(body))
+        );
+        const context = {
+          id: storedThread.id,
+          sessionId,
+          promptNumber: storedThread.promptNumber,
+          filePath: storedThread.filePath,
+        };
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+        this.decorateThread(thread, context);
+        this.threads.set(thread, context);
+      }
+    }
+  }
+
+  /**
+   * Rebuild the URI of a stored thread's document. Transcript content that
+   * can no longer be rebuilt falls back to the file in the workspace.
+   */
+  private getStoredThreadUri(storedThread: StoredThread, sessionId: string): vscode.Uri {
+    if (storedThread.uri) {
+      return vscode.Uri.parse(storedThread.uri);
+    }
+
+    const { filePath, promptNumber } = storedThread;
+    const provider = getProviderFor(this.providers, vscode.Uri.file(filePath));
+    const session = provider?.getSession();
+    const change = provider?.getPromptChange(promptNumber, filePath);
+    if (provider && session && change) {
+      if (storedThread.side === 'before') {
+        return getBeforeUri(change, sessionId);
+      }
+      const content = provider.getParser().getEditedContentAtPrompt(session, promptNumber, filePath);
+      if (content !== undefined) {
+        return OriginalContentProvider.createUri(content, filePath);
+      }
+    }
+    return vscode.Uri.file(filePath);
+  }
+
+  /**
+   * Which side of its prompt's diff a thread on transcript content is on
+   */
+  private getSide(thread: vscode.CommentThread, context: ThreadContext): 'before' | 'after' {
+    const provider = getProviderFor(this.providers, vscode.Uri.file(context.filePath));
+    const change = provider?.getPromptChange(context.promptNumber, context.filePath);
+    const beforeUri = change ? getBeforeUri(change, context.sessionId) : undefined;
+    return beforeUri?.toString() === thread.uri.toString() ? 'before' : 'after';
+  }
+
+  /**
+   * Store the threads of a session
+   */
+  private async save(sessionId: string): Promise<void> {
+    const threads: StoredThread[] = [];
+    for (const [thread, context] of this.threads) {
+      if (context.sessionId !== sessionId || thread.comments.length === 0) {
+        continue;
+      }
+      const isTranscriptContent = thread.uri.scheme === 'claude-original';
+      threads.push({
+        id: context.id,
+        uri: isTranscriptContent ? undefined : thread.uri.toString(),
+        side: isTranscriptContent ? this.getSide(thread, context) : undefined,
+        filePath: context.filePath,
+        promptNumber: context.promptNumber,
+        startLine: this.getStartLine(thread),
+        endLine: thread.range?.end.line ?? 0,
+        comments: thread.comments.map(comment => this.getBody(comment)),
+      });
+    }
+
+    const stored = this.getStoredThreads();
+    if (threads.length > 0) {
+      stored[sessionId] = threads;
+    } else {
+      delete stored[sessionId];
+    }
+    await this.workspaceState.update(STATE_KEY, stored);
+  }
+
+  private getStoredThreads(): { [sessionId: string]: StoredThread[] } {
+    return { ...this.workspaceState.get<{ [sessionId: string]: StoredThread[] }>(STATE_KEY) };
+  }
+
+  /**
+   * Label a thread with the prompt it belongs to
+   */
+  private decorateThread(thread: vscode.CommentThread, context: ThreadContext): void {
+    thread.label = `Prompt #${context.promptNumber}`;
+    thread.canReply = true;
+  }
+
+  private createComment(body: string): vscode.Comment {
+    return {
+      body: new vscode.MarkdownString(body),
+      mode: vscode.CommentMode.Preview,
+      author: { name: 'Review' },
+    };
+  }
+
+  private getBody(comment: vscode.Comment): string {
+    return typeof comment.body === 'string' ? comment.body : comment.body.value;
+  }
+
+  private getStartLine(thread: vscode.CommentThread): number {
+    return thread.range?.start.line ?? 0;
+  }
+
+  /**
+   * Format a thread's lines, e.g. "Line 4" or "Lines 4-9"
+   */
+  private formatLineRange(thread: vscode.CommentThread): string {
+    const start = this.getStartLine(thread) + 1;
+    const end = (thread.range?.end.line ?? 0) + 1;
+    return end > start ? `Lines ${start}-${end}` : `Line ${start}`;
+  }
+
+  /**
+   * Path of a file relative to its workspace folder
+   */
+  private getDisplayPath(filePath: string): string {
+    const provider = getProviderFor(this.providers, vscode.Uri.file(filePath));
+    return provider
+      ? path.relative(provider.getWorkspaceFolder().uri.fsPath, filePath) || filePath
+      : filePath;
+  }
+
+  /**
+   * Sessions currently shown in the Snapshots view
+   */
+  private getShownSessionIds(): Set<string> {
+    const sessionIds = new Set<string>();
+    for (const provider of this.providers) {
+      const session = provider.getSession();
+      if (session) {
+        sessionIds.add(session.sessionId);
+      }
+    }
+    return sessionIds;
+  }
+
+  dispose(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveMovedThreads();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { TranscriptParser } from './transcriptParser';
+import { FileChange, ParsedSession } from './types';
+
+/**
+ * Remembers which of a prompt's file changes someone has reviewed.
+ *
+ * A review is stored per session under the prompt, the file and the version
+ * of the file the change produced, as Claude recorded it: a hash of the
+ * content replayed from the prompt's last edit, or else the name of its after
+ * backup. When Claude changes the file again, the version differs and the
+ * change counts as unreviewed until it is looked at again. Edits made by hand
+ * do not affect reviews.
+ */
+export class ReviewTracker {
+  constructor(
+    private workspaceFolder: vscode.WorkspaceFolder,
+    private workspaceState: vscode.Memento,
+    private parser: TranscriptParser
+  ) {}
+
+  /**
+   * Whether a prompt's change has been reviewed in its current form
+   */
+  isReviewed(change: FileChange, session: ParsedSession): boolean {
+    const reviewed = this.getReviews()[session.sessionId] || [];
+    return reviewed.includes(this.getReviewKey(change, session));
+  }
+
+  /**
+   * Mark prompt changes as reviewed or unreviewed
+   */
+  async setReviewed(changes: FileChange[], session: ParsedSession, reviewed: boolean): Promise<void> {
+    const reviews = this.getReviews();
+    const keys = new Set(reviews[session.sessionId] || []);
+    for (const change of changes) {
+      const key = this.getReviewKey(change, session);
+      if (reviewed) {
+        keys.add(key);
+      } else {
+        keys.delete(key);
+      }
+    }
+    await this.workspaceState.update(this.stateKey, { ...reviews, [session.sessionId]: Array.from(keys) });
+  }
+
+  /**
+   * Identify a change by prompt, file and the version it produced
+   */
+  private getReviewKey(change: FileChange, session: ParsedSession): string {
+    return `${change.promptNumber}:${path.normalize(change.filePath)}:${this.getVersion(change, session)}`;
+  }
+
+  /**
+   * The version of the file a change produced, without reading the file on disk
+   */
+  private getVersion(change: FileChange, session: ParsedSession): string {
+    if (change.changeType === 'deleted') {
+      return 'deleted';
+    }
+
+    const replayed = this.parser.getEditedContentAtPrompt(session, change.promptNumber, change.filePath);
+    if (replayed !== undefined) {
+      return crypto.createHash('sha1').update(replayed).digest('hex');
+    }
+
+    const afterBackup = change.afterBackup?.backupFileName;
+    if (afterBackup && afterBackup !== change.beforeBackup?.backupFileName) {
+      return afterBackup;
+    }
+    return 'unknown';
+  }
+
+  private getReviews(): { [sessionId: string]: string[] } {
+    return this.workspaceState.get(this.stateKey) || {};
+  }
+
+  /**
+   * Key under which reviews are stored in workspace state
+   */
+  private get stateKey(): string {
+    return `claude-snapshots.reviewed:${this.workspaceFolder.uri.toString()}`;
+  }
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { ClaudeScmProvider } from './claudeScmProvider';
+import { getProviderFor, truncateText } from './utils';
+
+type ActionItem = vscode.QuickPickItem & { run: () => Thenable<unknown> };
+
+/**
+ * Status bar item summarizing the Claude session shown for the active
+ * workspace folder: prompts, files changed and changes not reviewed yet.
+ * Clicking it opens a menu with common actions.
+ */
+export class SessionStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private providers: ClaudeScmProvider[]) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.item.name = 'Claude Snapshots';
+    this.item.command = 'claude-snapshots.showStatusMenu';
+
+    this.disposables.push(
+      this.item,
+      vscode.commands.registerCommand('claude-snapshots.showStatusMenu', () => this.showMenu()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.update())
+    );
+    this.update();
+  }
+
+  /**
+   * Update the summary whenever a provider reloads its session
+   */
+  watchProvider(provider: ClaudeScmProvider): void {
+    this.disposables.push(provider.onDidRefresh(() => this.update()));
+    this.update();
+  }
+
+  /**
+   * Show the summary of the current provider's session
+   */
+  private update(): void {
+    const provider = this.getCurrentProvider();
+    const session = provider?.getSession();
+    if (!provider) {
+      this.item.hide();
+      return;
+    }
+
+    if (!session) {
+      this.item.text = '$(circle-slash) Claude';
+      this.item.tooltip = `No Claude Code session found for ${provider.getWorkspaceFolder().name}`;
+      this.item.show();
+      return;
+    }
+
+    const promptCount = session.prompts.length;
+    const fileCount = provider.getSessionChanges().length;
+    const { reviewed, total } = provider.getReviewProgress();
+    const unreviewed = total - reviewed;
+    const firstPrompt = session.prompts[0];
+
+    this.item.text = `$(history) Claude: ${promptCount} prompt${promptCount !== 1 ? 's' : ''}, ` +
+      `${fileCount} file${fileCount !== 1 ? 's' : ''}` +
+      (unreviewed > 0 ? `, ${unreviewed} unreviewed` : '');
+    this.item.tooltip = new vscode.MarkdownString()
+      .appendMarkdown(`**Claude session** · ${provider.getWorkspaceFolder().name}\n\n`)
+      .appendText(firstPrompt ? truncateText(firstPrompt.text, 200) : '')
+      .appendMarkdown(`\n\nStarted ${(firstPrompt?.timestamp ?? session.lastUpdated).toLocaleString()} · ` +
+        `last activity ${session.lastUpdated.toLocaleString()}\n\n`)
+      .appendMarkdown(`${promptCount} prompts, ${fileCount} files changed, ${reviewed}/${total} changes reviewed`);
+    this.item.show();
+  }
+
+  /**
+   * Menu of common actions for the current session
+   */
+  private async showMenu(): Promise<void> {
+    const provider = this.getCurrentProvider();
+    if (!provider) {
+      return;
+    }
+
+    const session = provider.getSession();
+    const latestPrompt = session?.prompts[session.prompts.length - 1];
+
+    const actions: ActionItem[] = [
+      {
+        label: '$(source-control) Show Snapshots',
+        run: () => vscode.commands.executeCommand('workbench.view.scm'),
+      },
+      ...(session && latestPrompt ? [{
+        label: '$(comment) Open Latest Prompt',
+        description: `#${latestPrompt.promptNumber}: ${truncateText(latestPrompt.text, 50)}`,
+        run: () => provider.revealPrompt(session.sessionId, latestPrompt.promptNumber),
+      }] : []),
+      {
+        label: '$(history) Switch Session...',
+        run: () => provider.selectSession(),
+      },
+      {
+        label: '$(search) Search Claude Snapshots...',
+        run: () => vscode.commands.executeCommand('claude-snapshots.search'),
+      },
+      {
+        label: '$(refresh) Refresh',
+        run: () => provider.refresh(),
+      },
+    ];
+
+    const picked = await vscode.window.showQuickPick(actions, {
+      placeHolder: `Claude Snapshots - ${provider.getWorkspaceFolder().name}`,
+    });
+    await picked?.run();
+  }
+
+  /**
+   * The provider of the active editor's workspace folder, or the first one
+   * that found a session
+   */
+  private getCurrentProvider(): ClaudeScmProvider | undefined {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    const active = uri ? getProviderFor(this.providers, uri) : undefined;
+    return active ?? this.providers.find(provider => provider.getSession()) ?? this.providers[0];
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
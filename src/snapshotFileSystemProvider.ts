@@ -1,63 +1,18 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { getBackupFilePath } from './claudeDataDirectory';
+import { FileChange } from './types';
+
+/** Stands in for a notebook that does not exist, in diffs of added or deleted notebooks */
+const EMPTY_NOTEBOOK = JSON.stringify({ cells: [], metadata: {}, nbformat: 4, nbformat_minor: 5 }, null, 1);
 
 /**
- * Text document content provider for reading Claude Code backup files
- *
- * Handles URIs in the format:
- *   claude-snapshot:/{sessionId}/{backupFileName}?path={originalFilePath}
- *
- * This is simpler than FileSystemProvider for read-only content.
+ * Whether a file is a Jupyter notebook. Notebook URIs must end in the file
+ * name so VS Code opens them in its notebook (cell-level) diff editor.
  */
-export class SnapshotContentProvider implements vscode.TextDocumentContentProvider {
-  private claudeDir: string;
-
-  constructor() {
-    this.claudeDir = path.join(os.homedir(), '.claude');
-  }
-
-  provideTextDocumentContent(uri: vscode.Uri): string {
-    const { sessionId, backupFileName } = this.parseUri(uri);
-
-    if (!sessionId || !backupFileName) {
-      return '';
-    }
-
-    const filePath = this.getBackupPath(sessionId, backupFileName);
-
-    if (!fs.existsSync(filePath)) {
-      return `[File not found: ${backupFileName}]`;
-    }
-
-    return fs.readFileSync(filePath, 'utf-8');
-  }
-
-  /**
-   * Parse a claude-snapshot URI to extract sessionId and backupFileName
-   *
-   * URI format: claude-snapshot:/{sessionId}/{backupFileName}?path={originalPath}
-   */
-  private parseUri(uri: vscode.Uri): { sessionId: string; backupFileName: string } {
-    const pathParts = uri.path.split('/').filter(p => p);
-
-    if (pathParts.length < 2) {
-      return { sessionId: '', backupFileName: '' };
-    }
-
-    return {
-      sessionId: pathParts[0],
-      backupFileName: pathParts[1],
-    };
-  }
-
-  /**
-   * Get the full path to a backup file
-   */
-  private getBackupPath(sessionId: string, backupFileName: string): string {
-    return path.join(this.claudeDir, 'file-history', sessionId, backupFileName);
-  }
+export function isNotebook(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.ipynb';
 }
 
 /**
@@ -67,6 +22,16 @@ export class EmptyContentProvider implements vscode.TextDocumentContentProvider
   provideTextDocumentContent(): string {
     return '';
   }
+
+  /**
+   * Create a URI for the empty side of a diff of a file
+   */
+  static createUri(filePath: string): vscode.Uri {
+    if (isNotebook(filePath)) {
+      return NotebookContentFileSystemProvider.createUri('', filePath);
+    }
+    return vscode.Uri.parse(`claude-empty:/${path.basename(filePath)}`);
+  }
 }
 
 /**
@@ -98,6 +63,10 @@ export class OriginalContentProvider implements vscode.TextDocumentContentProvid
    * Create a URI for original content
    */
   static createUri(content: string, filePath: string): vscode.Uri {
+    if (isNotebook(filePath)) {
+      return NotebookContentFileSystemProvider.createUri(content, filePath);
+    }
+
     // Encode content as base64 to safely store in URI
     const encoded = Buffer.from(content, 'utf-8').toString('base64');
     return vscode.Uri.parse(
@@ -111,16 +80,10 @@ export class OriginalContentProvider implements vscode.TextDocumentContentProvid
  * (Alternative implementation using FileSystemProvider API)
  */
 export class SnapshotFileSystemProvider implements vscode.FileSystemProvider {
-  private claudeDir: string;
-
   // Event emitters (required by FileSystemProvider but not used for read-only)
   private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
   readonly onDidChangeFile = this._onDidChangeFile.event;
 
-  constructor() {
-    this.claudeDir = path.join(os.homedir(), '.claude');
-  }
-
   watch(): vscode.Disposable {
     // Not watching for changes - read-only provider
     return new vscode.Disposable(() => {});
@@ -128,13 +91,13 @@ export class SnapshotFileSystemProvider implements vscode.FileSystemProvider {
 
   stat(uri: vscode.Uri): vscode.FileStat {
     // Parse the URI to get backup file info
-    const { sessionId, backupFileName } = this.parseUri(uri);
+    const { sessionId, backupFileName } = SnapshotFileSystemProvider.parseUri(uri);
 
     if (!sessionId || !backupFileName) {
       throw vscode.FileSystemError.FileNotFound(uri);
     }
 
-    const filePath = this.getBackupPath(sessionId, backupFileName);
+    const filePath = getBackupFilePath(sessionId, backupFileName);
 
     if (!fs.existsSync(filePath)) {
       throw vscode.FileSystemError.FileNotFound(uri);
@@ -159,13 +122,13 @@ export class SnapshotFileSystemProvider implements vscode.FileSystemProvider {
   }
 
   readFile(uri: vscode.Uri): Uint8Array {
-    const { sessionId, backupFileName } = this.parseUri(uri);
+    const { sessionId, backupFileName } = SnapshotFileSystemProvider.parseUri(uri);
 
     if (!sessionId || !backupFileName) {
       throw vscode.FileSystemError.FileNotFound(uri);
     }
 
-    const filePath = this.getBackupPath(sessionId, backupFileName);
+    const filePath = getBackupFilePath(sessionId, backupFileName);
 
     if (!fs.existsSync(filePath)) {
       throw vscode.FileSystemError.FileNotFound(uri);
@@ -187,10 +150,32 @@ export class SnapshotFileSystemProvider implements vscode.FileSystemProvider {
     throw vscode.FileSystemError.NoPermissions('Claude Snapshots is read-only');
   }
 
+  /**
+   * Create a URI for a backup file.
+   * The file name is appended so the backup opens like the original (e.g. as a notebook).
+   */
+  static createUri(sessionId: string, backupFileName: string, filePath: string): vscode.Uri {
+    return vscode.Uri.parse(
+      `claude-snapshot:/${sessionId}/${backupFileName}/${encodeURIComponent(path.basename(filePath))}` +
+        `?path=${encodeURIComponent(filePath)}`
+    );
+  }
+
+  /**
+   * Path of the backup file behind a claude-snapshot URI, or undefined for other URIs
+   */
+  static getBackupFilePath(uri: vscode.Uri): string | undefined {
+    if (uri.scheme !== 'claude-snapshot') {
+      return undefined;
+    }
+    const { sessionId, backupFileName } = SnapshotFileSystemProvider.parseUri(uri);
+    return sessionId && backupFileName ? getBackupFilePath(sessionId, backupFileName) : undefined;
+  }
+
   /**
    * Parse a claude-snapshot URI to extract sessionId and backupFileName
    */
-  private parseUri(uri: vscode.Uri): { sessionId: string; backupFileName: string } {
+  private static parseUri(uri: vscode.Uri): { sessionId: string; backupFileName: string } {
     const pathParts = uri.path.split('/').filter(p => p);
 
     if (pathParts.length < 2) {
@@ -202,11 +187,85 @@ export class SnapshotFileSystemProvider implements vscode.FileSystemProvider {
       backupFileName: pathParts[1],
     };
   }
+}
+
+/**
+ * File system provider for notebook content that is not in a backup file:
+ * original content from the transcript, or an empty notebook.
+ *
+ * Notebooks can only be opened from a file system provider, not from a
+ * text document content provider.
+ *
+ * Handles URIs in the format:
+ *   claude-notebook:/{fileName}.ipynb?{base64urlContent}
+ */
+export class NotebookContentFileSystemProvider implements vscode.FileSystemProvider {
+  // Event emitters (required by FileSystemProvider but not used for read-only)
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  watch(): vscode.Disposable {
+    // Not watching for changes - the content is part of the URI
+    return new vscode.Disposable(() => {});
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: 0,
+      size: this.readFile(uri).byteLength,
+    };
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  createDirectory(): void {
+    throw vscode.FileSystemError.NoPermissions('Claude Snapshots is read-only');
+  }
+
+  readFile(uri: vscode.Uri): Uint8Array {
+    const content = Buffer.from(uri.query, 'base64url').toString('utf-8');
+    // A notebook created from scratch has no original content
+    return Buffer.from(content.trim() ? content : EMPTY_NOTEBOOK, 'utf-8');
+  }
+
+  writeFile(): void {
+    throw vscode.FileSystemError.NoPermissions('Claude Snapshots is read-only');
+  }
+
+  delete(): void {
+    throw vscode.FileSystemError.NoPermissions('Claude Snapshots is read-only');
+  }
+
+  rename(): void {
+    throw vscode.FileSystemError.NoPermissions('Claude Snapshots is read-only');
+  }
 
   /**
-   * Get the full path to a backup file
+   * Create a URI for notebook content; an empty string gives an empty notebook
    */
-  private getBackupPath(sessionId: string, backupFileName: string): string {
-    return path.join(this.claudeDir, 'file-history', sessionId, backupFileName);
+  static createUri(content: string, filePath: string): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: 'claude-notebook',
+      path: `/${path.basename(filePath)}`,
+      query: Buffer.from(content, 'utf-8').toString('base64url'),
+    });
+  }
+}
+
+/**
+ * URI of the content a file had before a change: its backup, the original
+ * content recorded in the transcript, or empty when neither is known
+ */
+export function getBeforeUri(change: FileChange, sessionId: string): vscode.Uri {
+  if (change.beforeBackup?.backupFileName) {
+    return SnapshotFileSystemProvider.createUri(sessionId, change.beforeBackup.backupFileName, change.filePath);
+  }
+  if (change.originalContent != null) {
+    return OriginalContentProvider.createUri(change.originalContent, change.filePath);
   }
+  return EmptyContentProvider.createUri(change.filePath);
 }
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { TranscriptParser } from './transcriptParser';
+import { FileChange } from './types';
+
+/**
+ * Puts workspace files back to the state they had before a Claude change.
+ *
+ * All modifications go through a WorkspaceEdit so that the regular
+ * Undo command can take them back.
+ */
+export class SnapshotRestorer {
+  constructor(private parser: TranscriptParser) {}
+
+  /**
+   * Add the edits needed to restore a single file change to a WorkspaceEdit.
+   * Returns false if the previous content of the file is unknown or binary.
+   */
+  async addRestoreEdits(
+    edit: vscode.WorkspaceEdit,
+    change: FileChange,
+    sessionId: string
+  ): Promise<boolean> {
+    const uri = vscode.Uri.file(change.filePath);
+    const beforeContent = this.parser.getBeforeContent(change, sessionId);
+
+    // Binary content would be corrupted by text edits
+    if (beforeContent === undefined || this.parser.isBinaryChange(change, sessionId)) {
+      return false;
+    }
+
+    if (beforeContent === null) {
+      // No earlier version was recorded, so the file did not exist - restoring means removing it
+      edit.deleteFile(uri, { ignoreIfNotExists: true });
+      return true;
+    }
+
+    if (!fs.existsSync(change.filePath)) {
+      // The file was deleted (by Claude or afterwards) - recreate it
+      edit.createFile(uri, { ignoreIfExists: true });
+      edit.insert(uri, new vscode.Position(0, 0), beforeContent);
+      return true;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const fullRange = new vscode.Range(
+      document.positionAt(0),
+      document.positionAt(document.getText().length)
+    );
+    edit.replace(uri, fullRange, beforeContent);
+    return true;
+  }
+
+  /**
+   * Apply a restore edit and save the affected documents to disk
+   */
+  async apply(edit: vscode.WorkspaceEdit): Promise<boolean> {
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      return false;
+    }
+
+    // Text edits leave documents dirty - persist them so the workspace
+    // actually matches the restored snapshot
+    for (const [uri] of edit.entries()) {
+      const document = vscode.workspace.textDocuments.find(
+        d => d.uri.toString() === uri.toString()
+      );
+      if (document?.isDirty) {
+        await document.save();
+      }
+    }
+
+    return true;
+  }
+}
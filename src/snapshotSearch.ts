@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeScmProvider } from './claudeScmProvider';
+import { FileChange, ParsedPrompt } from './types';
+import { truncateText } from './utils';
+
+/** A prompt of any session, with the files it changed */
+interface SearchEntry {
+  provider: ClaudeScmProvider;
+  sessionId: string;
+  prompt: ParsedPrompt;
+  changes: FileChange[];
+}
+
+/** Indexed prompts of one transcript, valid while the file is unchanged */
+interface IndexedTranscript {
+  mtimeMs: number;
+  size: number;
+  sessionStart: Date;
+  entries: SearchEntry[];
+}
+
+type SearchItem = vscode.QuickPickItem & { entry?: SearchEntry; change?: FileChange };
+
+/**
+ * "Search Claude Snapshots": a quick pick over the prompts of every session
+ * of the workspace, matching prompt text, changed file paths and tool names.
+ *
+ * Picking a prompt switches the Snapshots view to its session and shows its
+ * details; picking a file opens the diff of that prompt's change to it.
+ */
+export class SnapshotSearch implements vscode.Disposable {
+  /** Indexed transcripts by workspace folder and transcript path */
+  private index = new Map<string, IndexedTranscript>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private providers: ClaudeScmProvider[]) {
+    this.disposables.push(
+      vscode.commands.registerCommand('claude-snapshots.search', () => this.search())
+    );
+  }
+
+  /**
+   * Show the search quick pick
+   */
+  private async search(): Promise<void> {
+    const quickPick = vscode.window.createQuickPick<SearchItem>();
+    quickPick.placeholder = 'Search prompts, changed files and tools across Claude sessions';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.busy = true;
+    quickPick.show();
+
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.onDidAccept(async () => {
+      const [picked] = quickPick.selectedItems;
+      if (!picked?.entry) {
+        return;
+      }
+      quickPick.hide();
+      await this.open(picked.entry, picked.change);
+    });
+
+    // Let the quick pick render before indexing, which reads every transcript
+    await new Promise(resolve => setTimeout(resolve, 0));
+    quickPick.items = this.buildItems();
+    quickPick.busy = false;
+  }
+
+  /**
+   * One item per prompt and per file a prompt changed, newest session first
+   */
+  private buildItems(): SearchItem[] {
+    const transcripts = this.providers.flatMap(provider => this.indexProvider(provider));
+    transcripts.sort((a, b) => b.sessionStart.getTime() - a.sessionStart.getTime());
+
+    const items: SearchItem[] = [];
+    for (const transcript of transcripts) {
+      if (transcript.entries.length === 0) {
+        continue;
+      }
+
+      const { provider } = transcript.entries[0];
+      const folderLabel = this.providers.length > 1 ? ` · ${provider.getWorkspaceFolder().name}` : '';
+      items.push({
+        label: `${this.formatDate(transcript.sessionStart)} · ${truncateText(transcript.entries[0].prompt.text, 50)}${folderLabel}`,
+        kind: vscode.QuickPickItemKind.Separator,
+      });
+
+      const rootPath = provider.getWorkspaceFolder().uri.fsPath;
+      for (const entry of [...transcript.entries].reverse()) {
+        const { prompt, changes } = entry;
+        const tools = Array.from(new Set(prompt.toolCalls.map(call => call.name)));
+        items.push({
+          label: `$(comment) #${prompt.promptNumber}: ${truncateText(prompt.text, 80)}`,
+          description: tools.join(', '),
+          detail: changes.length > 0
+            ? changes.map(change => path.relative(rootPath, change.filePath) || change.filePath).join(', ')
+            : undefined,
+          entry,
+        });
+
+        for (const change of changes) {
+          items.push({
+            label: `$(file) ${path.relative(rootPath, change.filePath) || change.filePath}`,
+            description: `${change.changeType} in #${prompt.promptNumber}: ${truncateText(prompt.text, 60)}`,
+            entry,
+            change,
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Index every transcript of a workspace folder, reusing unchanged ones
+   */
+  private indexProvider(provider: ClaudeScmProvider): IndexedTranscript[] {
+    const parser = provider.getParser();
+    const folderKey = provider.getWorkspaceFolder().uri.toString();
+    const transcripts: IndexedTranscript[] = [];
+
+    for (const transcriptPath of parser.findTranscriptsForWorkspace(provider.getWorkspaceFolder().uri.fsPath)) {
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(transcriptPath);
+      } catch {
+        continue;
+      }
+
+      const key = `${folderKey}|${transcriptPath}`;
+      const cached = this.index.get(key);
+      if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+        transcripts.push(cached);
+        continue;
+      }
+
+      const session = parser.parseTranscript(transcriptPath);
+      if (!session) {
+        continue;
+      }
+
+      const indexed: IndexedTranscript = {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        sessionStart: session.prompts[0]?.timestamp ?? session.lastUpdated,
+        entries: session.prompts.map(prompt => ({
+          provider,
+          sessionId: session.sessionId,
+          prompt,
+          changes: parser.getFileChangesForPrompt(prompt, session.projectPath),
+        })),
+      };
+      this.index.set(key, indexed);
+      transcripts.push(indexed);
+    }
+
+    return transcripts;
+  }
+
+  /**
+   * Open a search result: the diff of a file change, or the prompt itself
+   */
+  private async open(entry: SearchEntry, change: FileChange | undefined): Promise<void> {
+    if (change) {
+      await vscode.commands.executeCommand('claude-snapshots.openDiff', {
+        resourceUri: vscode.Uri.file(change.filePath),
+        change,
+        sessionId: entry.sessionId,
+      });
+      return;
+    }
+    await entry.provider.revealPrompt(entry.sessionId, entry.prompt.promptNumber);
+  }
+
+  /**
+   * Format a date for display in separators
+   */
+  private formatDate(date: Date): string {
+    return date.toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
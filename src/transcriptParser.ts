@@ -1,263 +1,948 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import {
   ParsedSession,
   ParsedPrompt,
   FileChange,
+  SessionSummary,
+  ParsedSubagent,
+  ParsedBranch,
+  ReplayedEdit,
+  FileEdit,
+  FileBackup,
+  FileVersion,
+  PromptRangeChange,
+  ToolCall,
   TrackedFileBackups,
   TranscriptEntry,
   TranscriptUserEntry,
   TranscriptFileHistoryEntry,
   TranscriptAssistantEntry,
+  TranscriptToolResultEntry,
 } from './types';
+import { findProjectDirectories, getBackupFilePath, getFileHistoryDirectory } from './claudeDataDirectory';
+import { isBinaryContent } from './binaryContent';
+
+/** Names of the tool that starts a subagent (renamed from Task to Agent in newer versions) */
+const TASK_TOOL_NAMES = new Set(['Task', 'Agent']);
 
 /**
- * Parses Claude Code transcript files to extract prompts and file changes
+ * Safely get an entry's uuid as string
  */
-export class TranscriptParser {
-  private claudeDir: string;
+function getUuid(entry: TranscriptEntry): string | null {
+  if ('uuid' in entry && typeof entry.uuid === 'string' && entry.uuid) {
+    return entry.uuid;
+  }
+  return null;
+}
+
+/**
+ * Safely get an entry's parentUuid as string
+ */
+function getParentUuid(entry: TranscriptEntry): string | null {
+  if ('parentUuid' in entry && typeof entry.parentUuid === 'string' && entry.parentUuid) {
+    return entry.parentUuid;
+  }
+  return null;
+}
+
+/**
+ * Safely get an entry's logicalParentUuid as string.
+ * Compaction restarts the chain with a null parentUuid, but keeps a link to the
+ * entry before it in logicalParentUuid.
+ */
+function getLogicalParentUuid(entry: TranscriptEntry): string | null {
+  if ('logicalParentUuid' in entry && typeof entry.logicalParentUuid === 'string' && entry.logicalParentUuid) {
+    return entry.logicalParentUuid;
+  }
+  return null;
+}
 
-  constructor() {
-    this.claudeDir = path.join(os.homedir(), '.claude');
+/**
+ * Whether an entry is a prompt typed by the user (not a tool result or meta message)
+ */
+function isPromptEntry(entry: TranscriptEntry): entry is TranscriptUserEntry {
+  return entry.type === 'user' &&
+    typeof (entry as TranscriptUserEntry).message?.content === 'string' &&
+    !('isMeta' in entry && entry.isMeta);
+}
+
+/** Tools that can only change files that already exist */
+const EXISTING_FILE_TOOLS = new Set(['Edit', 'MultiEdit', 'NotebookEdit']);
+
+/**
+ * Path of the file a tool result changed. Edit, MultiEdit and Write results
+ * carry filePath, NotebookEdit results carry notebook_path (older versions
+ * only have it in the tool call's input).
+ */
+function getEditedFilePath(result: TranscriptToolResultEntry['toolUseResult'], toolCall?: ToolCall): string | undefined {
+  if (!result || typeof result !== 'object') {
+    return undefined;
   }
+  const inputPath = toolCall?.name === 'NotebookEdit' ? toolCall.input.notebook_path : undefined;
+  return result.filePath || result.notebook_path || (typeof inputPath === 'string' ? inputPath : undefined);
+}
+
+/**
+ * Build a FileEdit from an Edit/MultiEdit/Write/NotebookEdit tool result entry
+ */
+function createFileEdit(
+  entry: Pick<Partial<TranscriptToolResultEntry>, 'uuid' | 'timestamp' | 'toolUseResult'>,
+  filePath: string,
+  toolCall?: ToolCall
+): FileEdit {
+  const result = entry.toolUseResult!;
+  return {
+    uuid: entry.uuid || '',
+    timestamp: new Date(entry.timestamp || 0),
+    filePath,
+    originalFile: result.originalFile ?? result.originalFileContents ?? result.original_file ?? undefined,
+    oldString: result.oldString,
+    newString: result.newString,
+    replaceAll: result.replaceAll,
+    edits: Array.isArray(result.edits)
+      ? result.edits.map(edit => ({ oldString: edit.old_string, newString: edit.new_string, replaceAll: edit.replace_all }))
+      : undefined,
+    content: result.type ? result.content : result.updated_file ?? undefined,
+    structuredPatch: result.structuredPatch,
+    toolName: toolCall?.name,
+  };
+}
+
+/**
+ * Replace the first (or every) occurrence of a string, the way the Edit tool does
+ */
+function applyReplacement(content: string, oldString: string, newString: string, replaceAll?: boolean): string {
+  return replaceAll
+    ? content.split(oldString).join(newString)
+    : content.replace(oldString, () => newString);
+}
+
+/** Maximum number of transcripts whose parse state is kept in memory */
+const MAX_CACHED_TRANSCRIPTS = 8;
+
+/** Number of leading bytes compared to detect that a transcript was rewritten */
+const HEAD_BYTES = 1024;
+
+/** An entry's position in the conversation tree */
+interface TranscriptNode {
+  uuid: string;
+  parentUuid: string | null;
+  /** The entry before a compaction boundary, when this entry restarts the chain after it */
+  logicalParentUuid: string | null;
+  isSidechain: boolean;
+  /** Set when the entry is a prompt typed by the user */
+  prompt?: TranscriptUserEntry;
+}
+
+/** A Task tool call that started a subagent */
+interface TaskCall {
+  rootId: string;
+  description: string;
+  prompt: string;
+  agentId?: string;
+}
+
+/**
+ * Parse state of one transcript, kept between refreshes so that only the
+ * lines appended since the last parse need to be read.
+ * Per-prompt data is keyed by prompt UUID.
+ */
+interface TranscriptState {
+  transcriptPath: string;
+  /** Byte offset up to which complete lines have been parsed */
+  offset: number;
+  /** Inode and leading bytes of the file when parsing started, to detect rewrites */
+  ino: number;
+  head: Buffer;
+  entryCount: number;
+  sessionId: string;
+  projectPath: string;
+  /** Entries with a UUID, in transcript order */
+  nodes: TranscriptNode[];
+  nodeByUuid: Map<string, TranscriptNode>;
+  promptNodes: TranscriptNode[];
+  /** UUIDs that are the parent of at least one entry */
+  parentUuids: Set<string>;
+  /** The prompt each entry descends from */
+  rootPromptByUuid: Map<string, string | undefined>;
+  snapshotMap: Map<string, TrackedFileBackups>;
+  latestSnapshot: TrackedFileBackups;
+  toolsPerPrompt: Map<string, Set<string>>;
+  toolCallsPerPrompt: Map<string, ToolCall[]>;
+  /** All tool calls by tool_use id, to match results with their calls */
+  toolCallsById: Map<string, ToolCall>;
+  /** Text of the latest assistant message of each prompt */
+  assistantTextPerPrompt: Map<string, string>;
+  /** Timestamp of the latest entry of each prompt */
+  endTimePerPrompt: Map<string, Date>;
+  editedFilesPerPrompt: Map<string, Set<string>>;
+  originalContentsPerPrompt: Map<string, Map<string, string>>;
+  fileEditsPerPrompt: Map<string, FileEdit[]>;
+  /** Task tool calls by tool_use id */
+  taskCalls: Map<string, TaskCall>;
+  subagentsPerPrompt: Map<string, ParsedSubagent[]>;
+  /** Offset and subagent transcript versions subagentsPerPrompt was built from */
+  subagentsKey: string;
+}
+
+/** Result of parsing a subagent transcript */
+type SubagentParseResult = Omit<ParsedSubagent, 'description' | 'transcriptPath'> & { prompt: string };
+
+/**
+ * Parses Claude Code transcript files to extract prompts and file changes
+ */
+export class TranscriptParser {
+  /** Parse state per transcript path, most recently used last */
+  private transcriptStates = new Map<string, TranscriptState>();
+  private subagentCache = new Map<string, { mtimeMs: number; size: number; result: SubagentParseResult | null }>();
 
   /**
    * Find all transcript files for a given workspace path
    */
   findTranscriptsForWorkspace(workspacePath: string): string[] {
-    const projectsDir = path.join(this.claudeDir, 'projects');
-    if (!fs.existsSync(projectsDir)) {
-      return [];
+    const transcripts = new Set<string>();
+
+    // Sessions from every matching project directory are merged
+    for (const projectDir of findProjectDirectories(workspacePath)) {
+      for (const file of fs.readdirSync(projectDir)) {
+        if (file.endsWith('.jsonl') && !file.startsWith('agent-')) {
+          transcripts.add(path.join(projectDir, file));
+        }
+      }
     }
 
-    // Claude encodes paths by replacing / with -
-    // e.g., /Users/UserName/Documents/tools becomes -Users-UserName-Documents-tools
-    const encodedPath = workspacePath.replace(/\//g, '-');
-    const projectDir = path.join(projectsDir, encodedPath);
+    return Array.from(transcripts).sort((a, b) => {
+      // Sort by modification time, newest first
+      const statA = fs.statSync(a);
+      const statB = fs.statSync(b);
+      return statB.mtime.getTime() - statA.mtime.getTime();
+    });
+  }
+
+  /**
+   * List every session for a workspace, newest first
+   */
+  listSessionsForWorkspace(workspacePath: string): SessionSummary[] {
+    const summaries: SessionSummary[] = [];
 
-    if (!fs.existsSync(projectDir)) {
+    for (const transcriptPath of this.findTranscriptsForWorkspace(workspacePath)) {
+      const session = this.parseTranscript(transcriptPath);
+      if (!session) {
+        continue;
+      }
+
+      const firstPrompt = session.prompts[0];
+      const lastPrompt = session.prompts[session.prompts.length - 1];
+      summaries.push({
+        sessionId: session.sessionId || path.basename(transcriptPath, '.jsonl'),
+        transcriptPath,
+        firstPrompt: firstPrompt ? firstPrompt.text : '',
+        startTime: firstPrompt ? firstPrompt.timestamp : session.lastUpdated,
+        endTime: lastPrompt && lastPrompt.timestamp > session.lastUpdated
+          ? lastPrompt.timestamp
+          : session.lastUpdated,
+        promptCount: session.prompts.length,
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Parse a single transcript file.
+   * Only lines appended since the previous call are read; the whole file is
+   * parsed again only when it was truncated or rewritten.
+   */
+  parseTranscript(transcriptPath: string): ParsedSession | null {
+    const state = this.loadTranscriptState(transcriptPath);
+    if (!state) {
+      return null;
+    }
+
+    // Build a set of UUIDs that are on the "active" conversation path.
+    // When /rewind is used, the transcript becomes a tree with multiple branches.
+    // We need to find the active path by tracing back from the last entry.
+    const activeUuids = this.findActiveConversationPath(state);
+
+    const prompts = this.buildPrompts(state, activeUuids, true);
+    const { sessionId, projectPath } = state;
+
+    // Get last modified time
+    const stats = fs.statSync(transcriptPath);
+
+    return {
+      sessionId,
+      projectPath,
+      transcriptPath,
+      prompts,
+      lastUpdated: stats.mtime,
+    };
+  }
+
+  /**
+   * Parse every conversation branch of a transcript.
+   * The active branch comes first, followed by branches abandoned with /rewind.
+   * Unlike parseTranscript, branches reach back across compactions, so a
+   * rewind to a prompt before a compaction still forks from it. Prompt
+   * numbers restart after each compaction, so the active branch's prompts
+   * after the last one have the numbers the Snapshots view gives them.
+   */
+  parseBranches(transcriptPath: string): ParsedBranch[] {
+    const state = this.loadTranscriptState(transcriptPath);
+    if (!state) {
       return [];
     }
 
-    const files = fs.readdirSync(projectDir);
-    return files
-      .filter(f => f.endsWith('.jsonl') && !f.startsWith('agent-'))
-      .map(f => path.join(projectDir, f))
-      .sort((a, b) => {
-        // Sort by modification time, newest first
-        const statA = fs.statSync(a);
-        const statB = fs.statSync(b);
-        return statB.mtime.getTime() - statA.mtime.getTime();
+    const activeUuids = this.findActiveConversationPath(state, true);
+    const activePromptCount = state.promptNodes.filter(node => activeUuids.has(node.uuid)).length;
+
+    const branches: ParsedBranch[] = [{
+      id: state.nodes[state.nodes.length - 1]?.uuid || '',
+      isActive: true,
+      forkPromptNumber: activePromptCount,
+      prompts: this.buildPrompts(state, activeUuids, true),
+    }];
+
+    // Every leaf of the UUID tree that is not on the active path ends an abandoned branch
+    const abandoned: Array<{ leafUuid: string; promptIds: string[]; forkPromptNumber: number }> = [];
+    for (const node of state.nodes) {
+      if (state.parentUuids.has(node.uuid) || activeUuids.has(node.uuid) || node.isSidechain) {
+        continue;
+      }
+
+      // Walk back until the branch joins the active path, collecting its own prompts
+      const ownPromptIds: string[] = [];
+      let current: TranscriptNode | undefined = node;
+      while (current && !activeUuids.has(current.uuid)) {
+        if (current.prompt) {
+          ownPromptIds.unshift(current.uuid);
+        }
+        const parentUuid: string | null = current.parentUuid || current.logicalParentUuid;
+        current = parentUuid ? state.nodeByUuid.get(parentUuid) : undefined;
+      }
+
+      // Dead ends without prompts of their own (e.g. interrupted tool calls) are not branches
+      if (ownPromptIds.length === 0) {
+        continue;
+      }
+
+      // Prompts shared with the active path come before the fork
+      const sharedPromptIds: string[] = [];
+      const sharedPath = current ? this.collectPath(state, current.uuid, true) : new Set<string>();
+      for (const promptNode of state.promptNodes) {
+        if (sharedPath.has(promptNode.uuid)) {
+          sharedPromptIds.push(promptNode.uuid);
+        }
+      }
+
+      abandoned.push({
+        leafUuid: node.uuid,
+        promptIds: [...sharedPromptIds, ...ownPromptIds],
+        forkPromptNumber: sharedPromptIds.length,
+      });
+    }
+
+    // Keep one branch per distinct prompt sequence, dropping sequences that
+    // are a prefix of a longer abandoned branch
+    const keys = abandoned.map(branch => branch.promptIds.join(','));
+    const seen = new Set<string>();
+    for (let i = 0; i < abandoned.length; i++) {
+      const key = keys[i];
+      if (seen.has(key) || keys.some(other => other.startsWith(key + ','))) {
+        continue;
+      }
+      seen.add(key);
+
+      const { leafUuid, forkPromptNumber } = abandoned[i];
+      branches.push({
+        id: leafUuid,
+        isActive: false,
+        forkPromptNumber,
+        prompts: this.buildPrompts(state, this.collectPath(state, leafUuid, true), false),
       });
+    }
+
+    return branches;
   }
 
   /**
-   * Parse a single transcript file
+   * Bring the parse state of a transcript up to date with the file on disk
    */
-  parseTranscript(transcriptPath: string): ParsedSession | null {
-    if (!fs.existsSync(transcriptPath)) {
+  private loadTranscriptState(transcriptPath: string): TranscriptState | null {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(transcriptPath);
+    } catch {
+      this.transcriptStates.delete(transcriptPath);
       return null;
     }
 
-    const content = fs.readFileSync(transcriptPath, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.trim());
+    let state = this.transcriptStates.get(transcriptPath);
+    if (state && !this.isAppendOnlyChange(state, stats)) {
+      // Truncated or rewritten - start over
+      state = undefined;
+    }
+    if (!state) {
+      state = this.createTranscriptState(transcriptPath, stats.ino);
+    }
+
+    if (stats.size > state.offset) {
+      this.readAppendedLines(state, stats.size);
+    }
+
+    // Keep the most recently used states, dropping the oldest
+    this.transcriptStates.delete(transcriptPath);
+    this.transcriptStates.set(transcriptPath, state);
+    while (this.transcriptStates.size > MAX_CACHED_TRANSCRIPTS) {
+      const oldest = this.transcriptStates.keys().next().value as string;
+      this.transcriptStates.delete(oldest);
+    }
 
-    const entries: TranscriptEntry[] = [];
+    if (state.entryCount === 0) {
+      return null;
+    }
+
+    this.updateSubagents(state);
+    return state;
+  }
+
+  /**
+   * Create an empty parse state for a transcript
+   */
+  private createTranscriptState(transcriptPath: string, ino: number): TranscriptState {
+    return {
+      transcriptPath,
+      offset: 0,
+      ino,
+      head: Buffer.alloc(0),
+      entryCount: 0,
+      sessionId: '',
+      projectPath: '',
+      nodes: [],
+      nodeByUuid: new Map(),
+      promptNodes: [],
+      parentUuids: new Set(),
+      rootPromptByUuid: new Map(),
+      snapshotMap: new Map(),
+      latestSnapshot: {},
+      toolsPerPrompt: new Map(),
+      toolCallsPerPrompt: new Map(),
+      toolCallsById: new Map(),
+      assistantTextPerPrompt: new Map(),
+      endTimePerPrompt: new Map(),
+      editedFilesPerPrompt: new Map(),
+      originalContentsPerPrompt: new Map(),
+      fileEditsPerPrompt: new Map(),
+      taskCalls: new Map(),
+      subagentsPerPrompt: new Map(),
+      subagentsKey: '',
+    };
+  }
+
+  /**
+   * Whether the file only had lines appended since the state was built
+   */
+  private isAppendOnlyChange(state: TranscriptState, stats: fs.Stats): boolean {
+    if (stats.ino !== state.ino || stats.size < state.offset) {
+      return false;
+    }
+    if (state.head.length === 0) {
+      return true;
+    }
+
+    const head = Buffer.alloc(state.head.length);
+    const fd = fs.openSync(state.transcriptPath, 'r');
+    try {
+      fs.readSync(fd, head, 0, head.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return head.equals(state.head);
+  }
+
+  /**
+   * Read and index the complete lines between the state's offset and the end of the file.
+   * A trailing partial line is left for the next call.
+   */
+  private readAppendedLines(state: TranscriptState, size: number): void {
+    const buffer = Buffer.alloc(size - state.offset);
+    const fd = fs.openSync(state.transcriptPath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, state.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (state.offset === 0) {
+      state.head = Buffer.from(buffer.subarray(0, HEAD_BYTES));
+    }
+
+    // Newline bytes never occur inside multi-byte UTF-8 sequences, so cutting there is safe
+    const lastNewline = buffer.lastIndexOf(0x0a);
+    if (lastNewline === -1) {
+      return;
+    }
+    state.offset += lastNewline + 1;
+
+    const lines = buffer.toString('utf-8', 0, lastNewline).split('\n');
     for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let entry: TranscriptEntry;
       try {
-        entries.push(JSON.parse(line));
+        entry = JSON.parse(line);
       } catch {
         // Skip malformed lines
         continue;
       }
+      this.indexEntry(state, entry);
     }
+  }
 
-    if (entries.length === 0) {
-      return null;
-    }
+  /**
+   * Add one transcript entry to the parse state.
+   * Collects tool uses, edited files and original file contents for the prompt
+   * the entry belongs to.
+   */
+  private indexEntry(state: TranscriptState, entry: TranscriptEntry): void {
+    state.entryCount++;
 
     // Extract session metadata from first user entry
-    let sessionId = '';
-    let projectPath = '';
-    const firstUser = entries.find(e => e.type === 'user' && 'sessionId' in e) as TranscriptUserEntry | undefined;
-    if (firstUser) {
-      sessionId = firstUser.sessionId;
-      projectPath = firstUser.cwd;
+    if (!state.sessionId && entry.type === 'user' && 'sessionId' in entry) {
+      const userEntry = entry as TranscriptUserEntry;
+      state.sessionId = userEntry.sessionId;
+      state.projectPath = userEntry.cwd;
     }
 
-    // Build a set of UUIDs that are on the "active" conversation path.
-    // When /rewind is used, the transcript becomes a tree with multiple branches.
-    // We need to find the active path by tracing back from the last entry.
-    const activeUuids = this.findActiveConversationPath(entries);
+    // Place the entry in the conversation tree. Parents are written before
+    // their children, so the prompt an entry belongs to is known right away.
+    const uuid = getUuid(entry);
+    if (uuid) {
+      const parentUuid = getParentUuid(entry);
+      const logicalParentUuid = parentUuid ? null : getLogicalParentUuid(entry);
+      const node: TranscriptNode = {
+        uuid,
+        parentUuid,
+        logicalParentUuid,
+        isSidechain: 'isSidechain' in entry && !!entry.isSidechain,
+        prompt: isPromptEntry(entry) ? entry : undefined,
+      };
+      state.nodes.push(node);
+      state.nodeByUuid.set(uuid, node);
+      if (node.prompt) {
+        state.promptNodes.push(node);
+      }
+      // An entry followed by a compaction is not the end of a branch
+      const linkedUuid = parentUuid || logicalParentUuid;
+      if (linkedUuid) {
+        state.parentUuids.add(linkedUuid);
+      }
+      state.rootPromptByUuid.set(
+        uuid,
+        node.prompt ? uuid : parentUuid ? state.rootPromptByUuid.get(parentUuid) : undefined
+      );
+    }
 
     // Build a map of messageId -> file-history-snapshot
     // Also track the latest snapshot (last one in the transcript)
-    const snapshotMap = new Map<string, TrackedFileBackups>();
-    let latestSnapshot: TrackedFileBackups = {};
+    if (entry.type === 'file-history-snapshot') {
+      const fhEntry = entry as TranscriptFileHistoryEntry;
+      state.snapshotMap.set(fhEntry.messageId, fhEntry.snapshot.trackedFileBackups);
+      state.latestSnapshot = fhEntry.snapshot.trackedFileBackups;
+      return;
+    }
 
-    for (const entry of entries) {
-      if (entry.type === 'file-history-snapshot') {
-        const fhEntry = entry as TranscriptFileHistoryEntry;
-        snapshotMap.set(fhEntry.messageId, fhEntry.snapshot.trackedFileBackups);
-        // Keep updating - the last one will be the latest
-        latestSnapshot = fhEntry.snapshot.trackedFileBackups;
-      }
+    const rootId = uuid ? state.rootPromptByUuid.get(uuid) : undefined;
+    if (!rootId) {
+      return;
     }
 
-    // Extract user prompts and correlate with snapshots
-    const prompts: ParsedPrompt[] = [];
-    let promptNumber = 0;
+    if ('timestamp' in entry && typeof entry.timestamp === 'string') {
+      state.endTimePerPrompt.set(rootId, new Date(entry.timestamp));
+    }
 
-    // Track tools used per prompt and files edited per prompt
-    const toolsPerPrompt = new Map<string, Set<string>>();
-    const editedFilesPerPrompt = new Map<string, Set<string>>();
+    if (entry.type === 'assistant') {
+      const assistantEntry = entry as TranscriptAssistantEntry;
 
-    // Track original file contents per prompt (extracted from toolUseResult.originalFile)
-    const originalContentsPerPrompt = new Map<string, Map<string, string>>();
+      // Replies are split over several entries - keep the last text written
+      const text = (assistantEntry.message?.content || [])
+        .filter(content => content.type === 'text' && content.text)
+        .map(content => content.text)
+        .join('\n\n');
+      if (text) {
+        state.assistantTextPerPrompt.set(rootId, text);
+      }
 
-    // First pass: collect tool uses, edited files, and original file contents for each prompt
-    for (const entry of entries) {
-      if (entry.type === 'assistant') {
-        const assistantEntry = entry as TranscriptAssistantEntry;
-        const parentId = assistantEntry.parentUuid;
-
-        if (assistantEntry.message?.content) {
-          for (const content of assistantEntry.message.content) {
-            if (content.type === 'tool_use' && content.name) {
-              // Find the root user message for this assistant response
-              let rootId = parentId;
-              let current = entries.find(e => 'uuid' in e && e.uuid === parentId);
-              while (current && current.type !== 'user') {
-                rootId = (current as { parentUuid?: string }).parentUuid || rootId;
-                current = entries.find(e => 'uuid' in e && e.uuid === rootId);
-              }
-
-              if (rootId) {
-                if (!toolsPerPrompt.has(rootId)) {
-                  toolsPerPrompt.set(rootId, new Set());
-                }
-                toolsPerPrompt.get(rootId)!.add(content.name);
-              }
-            }
-          }
+      for (const content of assistantEntry.message?.content || []) {
+        if (content.type !== 'tool_use' || !content.name) {
+          continue;
         }
-      }
 
-      // Track files edited via toolUseResult (Edit/Write tool results)
-      // Also extract originalFile content for accurate diffs
-      if (entry.type === 'user' && 'toolUseResult' in entry) {
-        const toolResult = entry as {
-          toolUseResult?: { filePath?: string; originalFile?: string };
-          parentUuid?: string;
-        };
-        if (toolResult.toolUseResult?.filePath) {
-          // Find the root prompt for this tool result
-          let rootId = toolResult.parentUuid;
-          let current = entries.find(e => 'uuid' in e && e.uuid === rootId);
-          while (current && (current.type !== 'user' || typeof (current as TranscriptUserEntry).message?.content !== 'string')) {
-            rootId = (current as { parentUuid?: string }).parentUuid || undefined;
-            if (!rootId) break;
-            current = entries.find(e => 'uuid' in e && e.uuid === rootId);
-          }
+        if (!state.toolsPerPrompt.has(rootId)) {
+          state.toolsPerPrompt.set(rootId, new Set());
+          state.toolCallsPerPrompt.set(rootId, []);
+        }
+        const toolCall: ToolCall = { id: content.id, name: content.name, input: content.input || {} };
+        state.toolsPerPrompt.get(rootId)!.add(content.name);
+        state.toolCallsPerPrompt.get(rootId)!.push(toolCall);
+        if (content.id) {
+          state.toolCallsById.set(content.id, toolCall);
+        }
 
-          if (rootId) {
-            if (!editedFilesPerPrompt.has(rootId)) {
-              editedFilesPerPrompt.set(rootId, new Set());
-            }
-            editedFilesPerPrompt.get(rootId)!.add(toolResult.toolUseResult.filePath);
-
-            // Extract original file content if available
-            // This is crucial for showing accurate diffs on first edits
-            if (toolResult.toolUseResult.originalFile !== undefined) {
-              if (!originalContentsPerPrompt.has(rootId)) {
-                originalContentsPerPrompt.set(rootId, new Map());
-              }
-              // Only store the first originalFile for each file path per prompt
-              // (subsequent edits to the same file in the same prompt would have different original)
-              const promptOriginals = originalContentsPerPrompt.get(rootId)!;
-              if (!promptOriginals.has(toolResult.toolUseResult.filePath)) {
-                promptOriginals.set(
-                  toolResult.toolUseResult.filePath,
-                  toolResult.toolUseResult.originalFile
-                );
-              }
-            }
-          }
+        // Track Task tool calls (subagents) by tool_use id, so that subagent
+        // transcripts can be credited to the prompt that started them
+        if (content.id && TASK_TOOL_NAMES.has(content.name)) {
+          state.taskCalls.set(content.id, {
+            rootId,
+            description: String(content.input?.description || content.input?.subagent_type || 'Subagent'),
+            prompt: String(content.input?.prompt || ''),
+          });
         }
       }
+      return;
     }
 
-    // Second pass: build prompts list
-    // The snapshot at each prompt represents the state WHEN that prompt was submitted
-    // (BEFORE Claude acts on it). So:
-    //   - beforeSnapshot for prompt N = snapshot at prompt N
-    //   - afterSnapshot for prompt N = snapshot at prompt N+1
-    for (const entry of entries) {
-      if (entry.type === 'user') {
-        const userEntry = entry as TranscriptUserEntry;
+    if (entry.type !== 'user') {
+      return;
+    }
 
-        // Skip tool results and meta messages
-        if (typeof userEntry.message?.content !== 'string') {
-          continue;
+    const toolResult = entry as Partial<TranscriptToolResultEntry> & {
+      toolUseResult?: { agentId?: string };
+      message?: TranscriptUserEntry['message'];
+    };
+
+    // Mark the tool calls this entry answers as finished
+    const answeredCalls: ToolCall[] = [];
+    if (Array.isArray(toolResult.message?.content)) {
+      for (const content of toolResult.message.content) {
+        const toolCall = content.tool_use_id ? state.toolCallsById.get(content.tool_use_id) : undefined;
+        if (toolCall) {
+          toolCall.hasResult = true;
+          answeredCalls.push(toolCall);
         }
+      }
+    }
 
-        // Skip system/meta messages
-        if ('isMeta' in userEntry && userEntry.isMeta) {
-          continue;
+    if (!('toolUseResult' in entry)) {
+      return;
+    }
+
+    // Newer Claude Code versions record the subagent's id in the Task tool result
+    const agentId = toolResult.toolUseResult?.agentId;
+    if (agentId && Array.isArray(toolResult.message?.content)) {
+      for (const content of toolResult.message.content) {
+        const taskCall = content.tool_use_id ? state.taskCalls.get(content.tool_use_id) : undefined;
+        if (taskCall) {
+          taskCall.agentId = agentId;
         }
+      }
+    }
 
-        // Skip prompts that are not on the active conversation path (rewound prompts)
-        if (!activeUuids.has(userEntry.uuid)) {
+    // Track files edited via toolUseResult (Edit/MultiEdit/Write/NotebookEdit results)
+    // Also extract the original file content for accurate diffs
+    const toolCall = answeredCalls[0];
+    const filePath = getEditedFilePath(toolResult.toolUseResult, toolCall);
+    if (!filePath) {
+      return;
+    }
+
+    if (!state.editedFilesPerPrompt.has(rootId)) {
+      state.editedFilesPerPrompt.set(rootId, new Set());
+    }
+    state.editedFilesPerPrompt.get(rootId)!.add(filePath);
+
+    if (!state.fileEditsPerPrompt.has(rootId)) {
+      state.fileEditsPerPrompt.set(rootId, []);
+    }
+    const fileEdit = createFileEdit(toolResult, filePath, toolCall);
+    state.fileEditsPerPrompt.get(rootId)!.push(fileEdit);
+
+    // Extract original file content if available
+    // This is crucial for showing accurate diffs on first edits
+    if (fileEdit.originalFile !== undefined) {
+      if (!state.originalContentsPerPrompt.has(rootId)) {
+        state.originalContentsPerPrompt.set(rootId, new Map());
+      }
+      // Only store the first originalFile for each file path per prompt
+      // (subsequent edits to the same file in the same prompt would have different original)
+      const promptOriginals = state.originalContentsPerPrompt.get(rootId)!;
+      if (!promptOriginals.has(filePath)) {
+        promptOriginals.set(filePath, fileEdit.originalFile);
+      }
+    }
+  }
+
+  /**
+   * Credit subagent transcripts to the prompt whose Task call started them
+   */
+  private updateSubagents(state: TranscriptState): void {
+    if (state.taskCalls.size === 0) {
+      state.subagentsPerPrompt = new Map();
+      return;
+    }
+
+    // Match again only when the transcript or a subagent transcript changed
+    const subagentPaths = this.findSubagentTranscripts(state.transcriptPath, state.sessionId);
+    const key = [state.offset, ...subagentPaths.map(subagentPath => {
+      try {
+        const stats = fs.statSync(subagentPath);
+        return `${subagentPath}:${stats.mtimeMs}:${stats.size}`;
+      } catch {
+        return subagentPath;
+      }
+    })].join('|');
+    if (key === state.subagentsKey) {
+      return;
+    }
+    state.subagentsKey = key;
+    state.subagentsPerPrompt = new Map();
+
+    const subagents = subagentPaths
+      .map(subagentPath => ({ subagentPath, subagent: this.parseSubagentTranscript(subagentPath, state.sessionId) }))
+      .filter((parsed): parsed is { subagentPath: string; subagent: SubagentParseResult } => parsed.subagent !== null);
+
+    // Each call starts one subagent, so a matched call is taken out of the
+    // candidates. Calls that name their subagent are matched first, so that
+    // matching by prompt text cannot take them.
+    const taskCalls = Array.from(state.taskCalls.values());
+    const matchedCalls = new Map<string, TaskCall>();
+    for (const byAgentId of [true, false]) {
+      for (const { subagentPath, subagent } of subagents) {
+        if (matchedCalls.has(subagentPath)) {
           continue;
         }
+        const index = taskCalls.findIndex(call =>
+          byAgentId ? call.agentId === subagent.agentId : !call.agentId && call.prompt === subagent.prompt
+        );
+        if (index !== -1) {
+          matchedCalls.set(subagentPath, taskCalls.splice(index, 1)[0]);
+        }
+      }
+    }
 
-        promptNumber++;
-        const messageId = userEntry.uuid;
+    for (const { subagentPath, subagent } of subagents) {
+      const taskCall = matchedCalls.get(subagentPath);
+      if (!taskCall) {
+        continue;
+      }
 
-        // Get the snapshot taken at the start of this prompt (BEFORE Claude acts)
-        const snapshotAtPrompt = snapshotMap.get(messageId) || {};
+      if (!state.subagentsPerPrompt.has(taskCall.rootId)) {
+        state.subagentsPerPrompt.set(taskCall.rootId, []);
+      }
+      state.subagentsPerPrompt.get(taskCall.rootId)!.push({
+        agentId: subagent.agentId,
+        description: taskCall.description,
+        transcriptPath: subagentPath,
+        toolsUsed: subagent.toolsUsed,
+        editedFiles: subagent.editedFiles,
+        originalFileContents: subagent.originalFileContents,
+        fileEdits: subagent.fileEdits,
+      });
+    }
+  }
 
-        const prompt: ParsedPrompt = {
-          promptNumber,
-          messageId,
-          parentMessageId: userEntry.parentUuid,
-          text: userEntry.message.content,
-          timestamp: new Date(userEntry.timestamp),
-          beforeSnapshot: { ...snapshotAtPrompt },
-          afterSnapshot: {}, // Will be filled in by third pass
-          toolsUsed: Array.from(toolsPerPrompt.get(messageId) || []),
-          editedFiles: editedFilesPerPrompt.get(messageId) || new Set(),
-          originalFileContents: originalContentsPerPrompt.get(messageId) || new Map(),
-        };
+  /**
+   * Build the list of prompts on a conversation path.
+   * Prompts are numbered from 1 again after each compaction boundary, the
+   * way the session was numbered before it was compacted.
+   * @param pathUuids UUIDs of all entries on the path
+   * @param isActivePath Whether this is the path the conversation currently continues from.
+   *   Only the active path may use file-history on disk for its last prompt.
+   */
+  private buildPrompts(state: TranscriptState, pathUuids: Set<string>, isActivePath: boolean): ParsedPrompt[] {
+    // Extract user prompts and correlate with snapshots
+    const prompts: ParsedPrompt[] = [];
+    let promptNumber = 0;
 
-        prompts.push(prompt);
+    // The snapshot at each prompt represents the state WHEN that prompt was submitted
+    // (BEFORE Claude acts on it). So:
+    //   - beforeSnapshot for prompt N = snapshot at prompt N
+    //   - afterSnapshot for prompt N = snapshot at prompt N+1
+    for (const node of state.nodes) {
+      // Skip entries that are not on this conversation path (e.g. rewound prompts)
+      if (!pathUuids.has(node.uuid)) {
+        continue;
       }
+      if (node.logicalParentUuid) {
+        // A compaction boundary starts the numbering over
+        promptNumber = 0;
+        continue;
+      }
+      if (!node.prompt) {
+        continue;
+      }
+
+      promptNumber++;
+      const messageId = node.uuid;
+      const userEntry = node.prompt;
+
+      // Get the snapshot taken at the start of this prompt (BEFORE Claude acts)
+      const snapshotAtPrompt = state.snapshotMap.get(messageId) || {};
+
+      prompts.push({
+        promptNumber,
+        messageId,
+        parentMessageId: userEntry.parentUuid,
+        text: userEntry.message.content as string,
+        timestamp: new Date(userEntry.timestamp),
+        beforeSnapshot: { ...snapshotAtPrompt },
+        afterSnapshot: {}, // Filled in below
+        toolsUsed: Array.from(state.toolsPerPrompt.get(messageId) || []),
+        // Copies, so that later appends to the state do not change prompts already handed out
+        editedFiles: new Set(state.editedFilesPerPrompt.get(messageId)),
+        originalFileContents: new Map(state.originalContentsPerPrompt.get(messageId)),
+        subagents: [...state.subagentsPerPrompt.get(messageId) || []],
+        fileEdits: [...state.fileEditsPerPrompt.get(messageId) || []],
+        toolCalls: (state.toolCallsPerPrompt.get(messageId) || []).map(call => ({ ...call })),
+        assistantText: state.assistantTextPerPrompt.get(messageId) || '',
+        endTime: state.endTimePerPrompt.get(messageId) || new Date(userEntry.timestamp),
+      });
     }
 
-    // Third pass: link afterSnapshot to the next prompt's beforeSnapshot
+    // Link afterSnapshot to the next prompt's beforeSnapshot
     // This shows what changed DURING each prompt's execution
     for (let i = 0; i < prompts.length; i++) {
       if (i < prompts.length - 1) {
         // After state = the before state of the NEXT prompt
         prompts[i].afterSnapshot = { ...prompts[i + 1].beforeSnapshot };
-      } else {
+      } else if (isActivePath) {
         // For the last prompt, check file-history directory for latest versions
         // The transcript may not have the update yet, but file-history will
-        const latestFromDisk = this.getLatestSnapshotFromDisk(sessionId, latestSnapshot);
+        const latestFromDisk = this.getLatestSnapshotFromDisk(state.sessionId, state.latestSnapshot);
         prompts[i].afterSnapshot = { ...latestFromDisk };
+      } else {
+        // The last prompt of an abandoned branch has no later snapshot;
+        // its result can only be recovered by replaying its tool results
+        prompts[i].afterSnapshot = { ...prompts[i].beforeSnapshot };
       }
     }
 
-    // Get last modified time
-    const stats = fs.statSync(transcriptPath);
+    return prompts;
+  }
+
+  /**
+   * Find subagent transcripts belonging to a session.
+   * Older Claude Code versions write agent-*.jsonl next to the session transcript,
+   * newer ones write them to {sessionId}/subagents/.
+   */
+  private findSubagentTranscripts(transcriptPath: string, sessionId: string): string[] {
+    const projectDir = path.dirname(transcriptPath);
+    const candidates: string[] = [];
+
+    for (const dir of [projectDir, path.join(projectDir, sessionId, 'subagents')]) {
+      if (!fs.existsSync(dir)) {
+        continue;
+      }
+      for (const file of fs.readdirSync(dir)) {
+        if (file.startsWith('agent-') && file.endsWith('.jsonl')) {
+          candidates.push(path.join(dir, file));
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Parse a subagent transcript, collecting the files it edited.
+   * Returns null if the transcript belongs to another session.
+   */
+  private parseSubagentTranscript(subagentPath: string, sessionId: string): SubagentParseResult | null {
+    // Finished subagent transcripts never change - reuse the previous parse
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(subagentPath);
+    } catch {
+      return null;
+    }
+    const cached = this.subagentCache.get(subagentPath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.result;
+    }
+
+    const result = this.readSubagentTranscript(subagentPath, sessionId);
+    this.subagentCache.set(subagentPath, { mtimeMs: stats.mtimeMs, size: stats.size, result });
+    return result;
+  }
+
+  /**
+   * Read a subagent transcript, collecting the files it edited
+   */
+  private readSubagentTranscript(subagentPath: string, sessionId: string): SubagentParseResult | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(subagentPath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let agentId = path.basename(subagentPath, '.jsonl').replace(/^agent-/, '');
+    let prompt = '';
+    const toolsUsed = new Set<string>();
+    const editedFiles = new Set<string>();
+    const originalFileContents = new Map<string, string>();
+    const fileEdits: FileEdit[] = [];
+    const toolCalls = new Map<string, ToolCall>();
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: TranscriptEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if (entry.type === 'user') {
+        const userEntry = entry as TranscriptUserEntry & Pick<TranscriptToolResultEntry, 'toolUseResult'>;
+        if (userEntry.sessionId && userEntry.sessionId !== sessionId) {
+          return null;
+        }
+        if (userEntry.agentId) {
+          agentId = userEntry.agentId;
+        }
+        if (!prompt && typeof userEntry.message?.content === 'string') {
+          prompt = userEntry.message.content;
+        }
+
+        const toolUseId = Array.isArray(userEntry.message?.content)
+          ? userEntry.message.content.find(item => item.tool_use_id)?.tool_use_id
+          : undefined;
+        const toolCall = toolUseId ? toolCalls.get(toolUseId) : undefined;
+        const filePath = getEditedFilePath(userEntry.toolUseResult, toolCall);
+        if (filePath) {
+          const fileEdit = createFileEdit(userEntry, filePath, toolCall);
+          editedFiles.add(filePath);
+          fileEdits.push(fileEdit);
+          if (fileEdit.originalFile !== undefined && fileEdit.originalFile !== null && !originalFileContents.has(filePath)) {
+            originalFileContents.set(filePath, fileEdit.originalFile);
+          }
+        }
+      } else if (entry.type === 'assistant') {
+        const assistantEntry = entry as TranscriptAssistantEntry;
+        for (const item of assistantEntry.message?.content || []) {
+          if (item.type === 'tool_use' && item.name) {
+            toolsUsed.add(item.name);
+            if (item.id) {
+              toolCalls.set(item.id, { id: item.id, name: item.name, input: item.input || {} });
+            }
+          }
+        }
+      }
+    }
 
     return {
-      sessionId,
-      projectPath,
-      transcriptPath,
-      prompts,
-      lastUpdated: stats.mtime,
+      agentId,
+      prompt,
+      toolsUsed: Array.from(toolsUsed),
+      editedFiles,
+      originalFileContents,
+      fileEdits,
     };
   }
 
@@ -287,6 +972,30 @@ export class TranscriptParser {
       return p;
     };
 
+    // Subagents started by this prompt contribute their own edits and original contents
+    const originalFileContents = new Map(prompt.originalFileContents);
+    const editedFiles = new Set(prompt.editedFiles);
+    for (const subagent of prompt.subagents) {
+      for (const [filePath, content] of subagent.originalFileContents) {
+        if (!originalFileContents.has(filePath)) {
+          originalFileContents.set(filePath, content);
+        }
+      }
+      for (const filePath of subagent.editedFiles) {
+        editedFiles.add(filePath);
+      }
+    }
+
+    // Edit, MultiEdit and NotebookEdit only work on existing files, so a file
+    // they changed was modified even when no original content was recorded
+    const existingFiles = new Set(
+      [...prompt.fileEdits, ...prompt.subagents.flatMap(subagent => subagent.fileEdits)]
+        .filter(edit => edit.toolName && EXISTING_FILE_TOOLS.has(edit.toolName))
+        .map(edit => normalizeFilePath(edit.filePath))
+    );
+    const isExistingFile = (p: string): boolean =>
+      existingFiles.has(normalizeFilePath(p)) || existingFiles.has(toAbsolutePath(p));
+
     const allFiles = new Set([
       ...Object.keys(prompt.beforeSnapshot).map(normalizeFilePath),
       ...Object.keys(prompt.afterSnapshot).map(normalizeFilePath),
@@ -312,9 +1021,9 @@ export class TranscriptParser {
 
         // Try to find original content from toolUseResult
         // Check both the relative and absolute paths
-        const originalContent = prompt.originalFileContents.get(filePath) ||
-          prompt.originalFileContents.get(absoluteFilePath) ||
-          Array.from(prompt.originalFileContents.entries()).find(
+        const originalContent = originalFileContents.get(filePath) ||
+          originalFileContents.get(absoluteFilePath) ||
+          Array.from(originalFileContents.entries()).find(
             ([k]) => normalizeFilePath(k) === filePath || getBasename(k) === getBasename(filePath)
           )?.[1];
 
@@ -333,7 +1042,7 @@ export class TranscriptParser {
           // No original content found - likely a new file creation
           changes.push({
             filePath: absoluteFilePath,
-            changeType: 'added',
+            changeType: isExistingFile(filePath) ? 'modified' : 'added',
             beforeBackup: null,
             afterBackup: null,   // Compare with current file on disk
             promptNumber: prompt.promptNumber,
@@ -377,7 +1086,7 @@ export class TranscriptParser {
 
     // For files that were edited (from toolUseResult) but not detected via snapshots,
     // add them as modified. This handles the case where file-history hasn't been updated yet.
-    for (const editedFile of prompt.editedFiles) {
+    for (const editedFile of editedFiles) {
       const normalizedEditedFile = normalizeFilePath(editedFile);
       const editedBasename = getBasename(editedFile);
 
@@ -390,15 +1099,15 @@ export class TranscriptParser {
           )?.[1];
 
         // Try to get original content from the transcript
-        const originalContent = prompt.originalFileContents.get(editedFile) ||
-          prompt.originalFileContents.get(normalizedEditedFile) ||
-          Array.from(prompt.originalFileContents.entries()).find(
+        const originalContent = originalFileContents.get(editedFile) ||
+          originalFileContents.get(normalizedEditedFile) ||
+          Array.from(originalFileContents.entries()).find(
             ([k]) => normalizeFilePath(k) === normalizedEditedFile || getBasename(k) === editedBasename
           )?.[1];
 
         changes.push({
           filePath: normalizedEditedFile,
-          changeType: (backup || originalContent !== undefined) ? 'modified' : 'added',
+          changeType: (backup || originalContent !== undefined || isExistingFile(editedFile)) ? 'modified' : 'added',
           beforeBackup: backup || null,
           afterBackup: null, // Compare with current file on disk
           promptNumber: prompt.promptNumber,
@@ -410,25 +1119,437 @@ export class TranscriptParser {
       }
     }
 
+    // Credit files that only a subagent edited to that subagent
+    for (const change of changes) {
+      const filePath = normalizeFilePath(change.filePath);
+      const editedByMain = Array.from(prompt.editedFiles).some(f => normalizeFilePath(f) === filePath);
+      if (editedByMain) {
+        continue;
+      }
+      const subagent = prompt.subagents.find(agent =>
+        Array.from(agent.editedFiles).some(f => normalizeFilePath(f) === filePath)
+      );
+      if (subagent) {
+        change.subagent = { agentId: subagent.agentId, description: subagent.description };
+      }
+    }
+
     return changes;
   }
 
+  /**
+   * Get the content of a file after an Edit/MultiEdit/Write tool result, by replaying it.
+   * Returns undefined if the result does not carry enough data to replay.
+   */
+  getContentAfterEdit(edit: FileEdit): string | undefined {
+    if (edit.content !== undefined) {
+      return edit.content;
+    }
+    if (edit.originalFile === undefined) {
+      return undefined;
+    }
+    if (edit.edits) {
+      // MultiEdit applies its replacements one after another
+      return edit.edits.reduce(
+        (content, replacement) => applyReplacement(content, replacement.oldString, replacement.newString, replacement.replaceAll),
+        edit.originalFile
+      );
+    }
+    if (edit.oldString === undefined || edit.newString === undefined) {
+      return undefined;
+    }
+    return applyReplacement(edit.originalFile, edit.oldString, edit.newString, edit.replaceAll);
+  }
+
+  /**
+   * Replay Claude's edits of a file within a list of prompts, including the
+   * edits of their subagents, in the order they were made.
+   * Edits that only record their replacement are replayed on top of the
+   * content left by the edits before them.
+   */
+  replayFileEdits(prompts: ParsedPrompt[], filePath: string): ReplayedEdit[] {
+    const normalizedPath = path.normalize(filePath);
+    const replayed: ReplayedEdit[] = [];
+    let content: string | undefined;
+
+    for (const prompt of prompts) {
+      const edits = [...prompt.fileEdits, ...prompt.subagents.flatMap(subagent => subagent.fileEdits)]
+        .filter(edit => path.normalize(edit.filePath) === normalizedPath)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+      for (const edit of edits) {
+        // A Write without original content and nothing written before it created the file
+        const before = edit.originalFile ?? (edit.content !== undefined && content === undefined ? '' : content);
+        const after = this.getContentAfterEdit(edit) ??
+          (before !== undefined ? this.getContentAfterEdit({ ...edit, originalFile: before }) : undefined);
+        replayed.push({ edit, prompt, before, after });
+        content = after;
+      }
+    }
+
+    return replayed;
+  }
+
+  /**
+   * Get the content Claude last produced for a file within a list of prompts.
+   * Returns undefined if none of the prompts edited the file, or if its last
+   * edit cannot be replayed.
+   */
+  getLastEditedContent(prompts: ParsedPrompt[], filePath: string): string | undefined {
+    const replayed = this.replayFileEdits(prompts, filePath);
+    return replayed[replayed.length - 1]?.after;
+  }
+
+  /**
+   * Get the content Claude left a file with at the end of a prompt, replaying
+   * the session's edits up to it.
+   * Returns undefined if the prompt (or its subagents) did not edit the file,
+   * or if its last edit cannot be replayed.
+   */
+  getEditedContentAtPrompt(session: ParsedSession, promptNumber: number, filePath: string): string | undefined {
+    const replayed = this.replayFileEdits(
+      session.prompts.filter(prompt => prompt.promptNumber <= promptNumber),
+      filePath
+    );
+    const last = replayed[replayed.length - 1];
+    return last?.prompt.promptNumber === promptNumber ? last.after : undefined;
+  }
+
+  /**
+   * Get the net change of every file touched during a session.
+   * Each file is compared from its earliest known original to its current content on disk.
+   * @param promptChanges Changes of each prompt by prompt number, when they
+   *   include more than the transcript records (e.g. Bash changes)
+   */
+  getSessionFileChanges(session: ParsedSession, promptChanges?: Map<number, FileChange[]>): FileChange[] {
+    // The first change to a file in the session holds its original state
+    const firstChanges = new Map<string, FileChange>();
+    for (const prompt of session.prompts) {
+      const changes = promptChanges?.get(prompt.promptNumber) ?? this.getFileChangesForPrompt(prompt, session.projectPath);
+      for (const change of changes) {
+        const key = path.normalize(change.filePath);
+        if (!firstChanges.has(key)) {
+          firstChanges.set(key, change);
+        }
+      }
+    }
+
+    const changes: FileChange[] = [];
+    for (const first of firstChanges.values()) {
+      const existedBefore = first.changeType !== 'added';
+      const existsNow = fs.existsSync(first.filePath);
+
+      let changeType: FileChange['changeType'];
+      if (existedBefore && !existsNow) {
+        changeType = 'deleted';
+      } else if (!existedBefore && existsNow) {
+        changeType = 'added';
+      } else if (existedBefore && existsNow) {
+        // Skip files whose edits cancelled out over the session
+        const original = this.getBeforeContent(first, session.sessionId);
+        if (original != null && original === fs.readFileSync(first.filePath, 'utf-8')) {
+          continue;
+        }
+        changeType = 'modified';
+      } else {
+        // Created and removed again within the session
+        continue;
+      }
+
+      changes.push({
+        filePath: first.filePath,
+        changeType,
+        beforeBackup: existedBefore ? first.beforeBackup : null,
+        afterBackup: null, // Compare with current file on disk
+        promptNumber: first.promptNumber,
+        promptText: first.promptText,
+        originalContent: existedBefore && !first.beforeBackup ? first.originalContent : undefined,
+        cumulative: true,
+      });
+    }
+
+    return changes.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * Get every file whose state differs between the start of one prompt and
+   * the end of a later one.
+   *
+   * Each side comes from the prompts' beforeSnapshot/afterSnapshot backups.
+   * Files without a backup on a side fall back to the original content and
+   * the replayed edits (including subagent edits) of the prompt that last
+   * changed the file, never to the file on disk. Changed files whose content on a side is still
+   * unknown are marked contentUnknown.
+   * @param promptChanges Changes of each prompt by prompt number, when they
+   *   include more than the transcript records (e.g. Bash changes)
+   */
+  getPromptRangeChanges(
+    session: ParsedSession,
+    fromPromptNumber: number,
+    toPromptNumber: number,
+    promptChanges?: Map<number, FileChange[]>
+  ): PromptRangeChange[] {
+    const prompts = session.prompts.filter(
+      prompt => prompt.promptNumber >= fromPromptNumber && prompt.promptNumber <= toPromptNumber
+    );
+    if (prompts.length === 0) {
+      return [];
+    }
+
+    const first = prompts[0];
+    const last = prompts[prompts.length - 1];
+    const toAbsolutePath = (p: string) => path.isAbsolute(p) ? path.normalize(p) : path.join(session.projectPath, p);
+    const findBackup = (snapshot: TrackedFileBackups, filePath: string) =>
+      Object.entries(snapshot).find(([k]) => toAbsolutePath(k) === filePath)?.[1];
+
+    // Changes made to each file by the prompts in the range, in prompt order
+    const rangeChanges = new Map<string, FileChange[]>();
+    for (const prompt of prompts) {
+      const changes = promptChanges?.get(prompt.promptNumber) ?? this.getFileChangesForPrompt(prompt, session.projectPath);
+      for (const change of changes) {
+        const key = path.normalize(change.filePath);
+        rangeChanges.set(key, [...(rangeChanges.get(key) || []), change]);
+      }
+    }
+
+    const filePaths = new Set([
+      ...Object.keys(first.beforeSnapshot).map(toAbsolutePath),
+      ...Object.keys(last.afterSnapshot).map(toAbsolutePath),
+      ...rangeChanges.keys(),
+    ]);
+
+    // null: the file did not exist, undefined: its content is unknown
+    const readBackup = (backup: FileBackup | undefined): string | null | undefined => {
+      if (!backup) {
+        return undefined;
+      }
+      return backup.backupFileName ? this.readBackupFile(session.sessionId, backup.backupFileName) ?? undefined : null;
+    };
+
+    const changes: PromptRangeChange[] = [];
+    for (const filePath of filePaths) {
+      const fileChanges = rangeChanges.get(filePath) || [];
+      const firstChange = fileChanges[0];
+      const lastChange = fileChanges[fileChanges.length - 1];
+      const beforeBackup = findBackup(first.beforeSnapshot, filePath);
+      const afterBackup = findBackup(last.afterSnapshot, filePath);
+
+      if (beforeBackup?.backupFileName && beforeBackup.backupFileName === afterBackup?.backupFileName) {
+        continue;
+      }
+
+      const backupBefore = readBackup(beforeBackup);
+      let before = backupBefore;
+      if (before === undefined && firstChange) {
+        before = this.getBeforeContent(firstChange, session.sessionId);
+      }
+
+      const backupAfter = readBackup(afterBackup);
+      let after = backupAfter;
+      if (after === undefined && lastChange) {
+        if (lastChange.changeType === 'deleted') {
+          after = null;
+        } else if (!lastChange.viaBash) {
+          // Bash commands leave no edits to replay
+          after = this.getEditedContentAtPrompt(session, lastChange.promptNumber, filePath);
+        }
+      }
+
+      // Without changes in the range there is nothing to show when a side is unknown
+      const contentUnknown = before === undefined || after === undefined;
+      if ((contentUnknown && !lastChange) || before === after) {
+        continue;
+      }
+
+      // Backups are only used for the diff when they could be read
+      const hasBeforeBackup = typeof backupBefore === 'string';
+      const hasAfterBackup = typeof backupAfter === 'string';
+      changes.push({
+        filePath,
+        changeType: before === null ? 'added' : after === null ? 'deleted' : 'modified',
+        contentUnknown,
+        fromPromptNumber: first.promptNumber,
+        toPromptNumber: last.promptNumber,
+        beforeBackup: hasBeforeBackup ? beforeBackup! : null,
+        afterBackup: hasAfterBackup ? afterBackup! : null,
+        beforeContent: hasBeforeBackup ? undefined : before ?? undefined,
+        afterContent: hasAfterBackup ? undefined : after ?? undefined,
+      });
+    }
+
+    return changes.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * List every recorded version of a file in a session, oldest first.
+   * Combines the versions referenced by the prompt snapshots with the
+   * @vN backups found in file-history.
+   */
+  getFileVersions(session: ParsedSession, filePath: string): FileVersion[] {
+    const target = path.normalize(filePath);
+    const toAbsolutePath = (p: string) => path.isAbsolute(p) ? path.normalize(p) : path.join(session.projectPath, p);
+    const findBackup = (snapshot: TrackedFileBackups) =>
+      Object.entries(snapshot).find(([k]) => toAbsolutePath(k) === target)?.[1];
+
+    const versions = new Map<number, FileVersion>();
+    const addVersion = (backup: FileBackup | undefined, prompt: ParsedPrompt, position: FileVersion['position']) => {
+      if (!backup?.backupFileName || versions.has(backup.version)) {
+        return;
+      }
+      versions.set(backup.version, {
+        version: backup.version,
+        backupFileName: backup.backupFileName,
+        promptNumber: prompt.promptNumber,
+        promptText: prompt.text,
+        position,
+        time: backup.backupTime ? new Date(backup.backupTime) : this.getBackupTime(session.sessionId, backup.backupFileName),
+      });
+    };
+
+    // A version belongs to the prompt that produced it; versions no prompt
+    // produced are the file as it was when a prompt started
+    for (const prompt of session.prompts) {
+      addVersion(findBackup(prompt.afterSnapshot), prompt, 'after');
+    }
+    for (const prompt of session.prompts) {
+      addVersion(findBackup(prompt.beforeSnapshot), prompt, 'before');
+    }
+
+    // Backups written after the last snapshot belong to the latest prompt
+    const lastPrompt = session.prompts[session.prompts.length - 1];
+    const knownBackup = Array.from(versions.values())[0]?.backupFileName;
+    const historyDir = getFileHistoryDirectory(session.sessionId);
+    if (lastPrompt && knownBackup && fs.existsSync(historyDir)) {
+      const hash = knownBackup.split('@')[0];
+      for (const { version, fileName } of this.getBackupVersionsByHash(historyDir).get(hash) || []) {
+        addVersion({ backupFileName: fileName, version }, lastPrompt, 'after');
+      }
+    }
+
+    // The first edit of a file has no backup of the content before it,
+    // only the original content recorded in the transcript
+    for (const prompt of session.prompts) {
+      const change = this.getFileChangesForPrompt(prompt, session.projectPath)
+        .find(c => path.normalize(c.filePath) === target);
+      if (!change) {
+        continue;
+      }
+      if (!change.beforeBackup && change.originalContent !== undefined) {
+        versions.set(0, {
+          version: 0,
+          backupFileName: null,
+          content: change.originalContent,
+          promptNumber: prompt.promptNumber,
+          promptText: prompt.text,
+          position: 'before',
+          time: prompt.timestamp,
+        });
+      }
+      break;
+    }
+
+    return Array.from(versions.values()).sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Modification time of a backup file, used when the snapshot has no backupTime
+   */
+  private getBackupTime(sessionId: string, backupFileName: string): Date {
+    try {
+      return fs.statSync(this.getBackupFilePath(sessionId, backupFileName)).mtime;
+    } catch {
+      return new Date(0);
+    }
+  }
+
   /**
    * Get the path to a backup file in file-history
    */
   getBackupFilePath(sessionId: string, backupFileName: string): string {
-    return path.join(this.claudeDir, 'file-history', sessionId, backupFileName);
+    return getBackupFilePath(sessionId, backupFileName);
   }
 
   /**
    * Read content from a backup file
    */
   readBackupFile(sessionId: string, backupFileName: string): string | null {
+    return this.readBackupBytes(sessionId, backupFileName)?.toString('utf-8') ?? null;
+  }
+
+  /**
+   * Read the raw bytes of a backup file
+   */
+  readBackupBytes(sessionId: string, backupFileName: string): Buffer | null {
     const backupPath = this.getBackupFilePath(sessionId, backupFileName);
     if (!fs.existsSync(backupPath)) {
       return null;
     }
-    return fs.readFileSync(backupPath, 'utf-8');
+    return fs.readFileSync(backupPath);
+  }
+
+  /**
+   * Whether either side of a change is a binary file, whose content cannot be
+   * handled as text (diffed, patched or restored through text edits)
+   */
+  isBinaryChange(change: FileChange, sessionId: string): boolean {
+    const sides = [change.beforeBackup, change.afterBackup]
+      .filter((backup): backup is FileBackup => !!backup?.backupFileName)
+      .map(backup => this.readBackupBytes(sessionId, backup.backupFileName));
+    if (fs.existsSync(change.filePath)) {
+      sides.push(fs.readFileSync(change.filePath));
+    }
+    return sides.some(content => content !== null && isBinaryContent(content));
+  }
+
+  /**
+   * Get the content of a file as it was BEFORE a change was made.
+   *
+   * Returns null when the file did not exist before the change (added files),
+   * and undefined when the previous content is unknown (no backup and no
+   * originalFile recorded in the transcript).
+   */
+  getBeforeContent(change: FileChange, sessionId: string): string | null | undefined {
+    if (change.beforeBackup?.backupFileName) {
+      const content = this.readBackupFile(sessionId, change.beforeBackup.backupFileName);
+      if (content !== null) {
+        return content;
+      }
+    }
+
+    // originalContent can be null in raw transcript data, treat it as unknown
+    if (change.originalContent != null) {
+      return change.originalContent;
+    }
+
+    // Only an added file without any record of an earlier version did not exist
+    return change.changeType === 'added' && !change.beforeBackup?.backupFileName ? null : undefined;
+  }
+
+  /**
+   * Get the content of a file as it was AFTER a change was made.
+   * Uses the same sources as the diff view: the after backup when it differs
+   * from the before backup, otherwise the current file on disk.
+   *
+   * Returns null when the file does not exist after the change.
+   */
+  getAfterContent(change: FileChange, sessionId: string): string | null {
+    if (change.changeType === 'deleted') {
+      return null;
+    }
+
+    const hasDistinctAfterBackup = change.afterBackup?.backupFileName &&
+      change.afterBackup.backupFileName !== change.beforeBackup?.backupFileName;
+    if (hasDistinctAfterBackup && !change.cumulative && !change.originalContent) {
+      const content = this.readBackupFile(sessionId, change.afterBackup!.backupFileName);
+      if (content !== null) {
+        return content;
+      }
+    }
+
+    if (!fs.existsSync(change.filePath)) {
+      return null;
+    }
+    return fs.readFileSync(change.filePath, 'utf-8');
   }
 
   /**
@@ -441,30 +1562,14 @@ export class TranscriptParser {
     baseSnapshot: TrackedFileBackups
   ): TrackedFileBackups {
     const result: TrackedFileBackups = { ...baseSnapshot };
-    const historyDir = path.join(this.claudeDir, 'file-history', sessionId);
+    const historyDir = getFileHistoryDirectory(sessionId);
 
     if (!fs.existsSync(historyDir)) {
       return result;
     }
 
     try {
-      const files = fs.readdirSync(historyDir);
-
-      // Group files by their hash (before @vN)
-      const filesByHash = new Map<string, { version: number; fileName: string }[]>();
-
-      for (const file of files) {
-        const match = file.match(/^(.+)@v(\d+)$/);
-        if (match) {
-          const hash = match[1];
-          const version = parseInt(match[2], 10);
-
-          if (!filesByHash.has(hash)) {
-            filesByHash.set(hash, []);
-          }
-          filesByHash.get(hash)!.push({ version, fileName: file });
-        }
-      }
+      const filesByHash = this.getBackupVersionsByHash(historyDir);
 
       // For each file in the base snapshot, check if there's a newer version on disk
       for (const [filePath, backup] of Object.entries(result)) {
@@ -479,10 +1584,8 @@ export class TranscriptParser {
         const versions = filesByHash.get(hash);
 
         if (versions && versions.length > 0) {
-          // Find the highest version
-          const latest = versions.reduce((max, curr) =>
-            curr.version > max.version ? curr : max
-          );
+          // Versions are sorted, so the last one is the highest
+          const latest = versions[versions.length - 1];
 
           // If there's a newer version than what's in the snapshot, use it
           if (latest.version > backup.version) {
@@ -503,73 +1606,61 @@ export class TranscriptParser {
   }
 
   /**
-   * Find the UUIDs of all entries on the active conversation path.
-   * When /rewind is used, the transcript becomes a tree structure with multiple branches.
-   * This method finds the "active" path by:
-   * 1. Starting from the last entry in the transcript
-   * 2. Walking backwards through parentUuid links to the root
-   * 3. Returning all UUIDs on this path
+   * Group the backup files of a file-history directory by their hash (before @vN),
+   * each group sorted by version
    */
-  private findActiveConversationPath(entries: TranscriptEntry[]): Set<string> {
-    const activeUuids = new Set<string>();
+  private getBackupVersionsByHash(historyDir: string): Map<string, { version: number; fileName: string }[]> {
+    const filesByHash = new Map<string, { version: number; fileName: string }[]>();
 
-    // Helper to safely get uuid as string
-    const getUuid = (entry: TranscriptEntry): string | null => {
-      if ('uuid' in entry && typeof entry.uuid === 'string' && entry.uuid) {
-        return entry.uuid;
-      }
-      return null;
-    };
+    for (const file of fs.readdirSync(historyDir)) {
+      const match = file.match(/^(.+)@v(\d+)$/);
+      if (match) {
+        const hash = match[1];
+        const version = parseInt(match[2], 10);
 
-    // Helper to safely get parentUuid as string
-    const getParentUuid = (entry: TranscriptEntry): string | null => {
-      if ('parentUuid' in entry && typeof entry.parentUuid === 'string' && entry.parentUuid) {
-        return entry.parentUuid;
-      }
-      return null;
-    };
-
-    // Build a map of uuid -> entry for quick lookup
-    const entryByUuid = new Map<string, TranscriptEntry>();
-    for (const entry of entries) {
-      const uuid = getUuid(entry);
-      if (uuid) {
-        entryByUuid.set(uuid, entry);
+        if (!filesByHash.has(hash)) {
+          filesByHash.set(hash, []);
+        }
+        filesByHash.get(hash)!.push({ version, fileName: file });
       }
     }
 
-    // Find the last entry with a uuid (this is the current HEAD of the conversation)
-    let lastEntry: TranscriptEntry | undefined;
-    for (let i = entries.length - 1; i >= 0; i--) {
-      const entry = entries[i];
-      if (getUuid(entry)) {
-        lastEntry = entry;
-        break;
-      }
+    for (const versions of filesByHash.values()) {
+      versions.sort((a, b) => a.version - b.version);
     }
+    return filesByHash;
+  }
 
-    if (!lastEntry) {
-      // No entries with UUIDs, return empty set (all prompts will be shown)
-      return activeUuids;
+  /**
+   * Find the UUIDs of all entries on the active conversation path.
+   * When /rewind is used, the transcript becomes a tree structure with multiple branches.
+   * This method finds the "active" path by:
+   * 1. Starting from the last entry in the transcript
+   * 2. Walking backwards through parentUuid links to the root
+   * 3. Returning all UUIDs on this path
+   * @param acrossCompactions Whether to keep walking past compaction boundaries
+   */
+  private findActiveConversationPath(state: TranscriptState, acrossCompactions = false): Set<string> {
+    // The last entry with a uuid is the current HEAD of the conversation
+    const lastNode = state.nodes[state.nodes.length - 1];
+    if (!lastNode) {
+      return new Set();
     }
+    return this.collectPath(state, lastNode.uuid, acrossCompactions);
+  }
 
-    // Walk backwards from the last entry, collecting all UUIDs on the active path
-    let current: TranscriptEntry | undefined = lastEntry;
-    while (current) {
-      const uuid = getUuid(current);
-      if (uuid) {
-        activeUuids.add(uuid);
-      }
-
-      // Move to parent
-      const parentUuid = getParentUuid(current);
-      if (parentUuid) {
-        current = entryByUuid.get(parentUuid);
-      } else {
-        break;
-      }
+  /**
+   * Collect the UUIDs from an entry back to the root of the conversation
+   * @param acrossCompactions Whether to keep walking past compaction boundaries
+   */
+  private collectPath(state: TranscriptState, uuid: string, acrossCompactions = false): Set<string> {
+    const pathUuids = new Set<string>();
+    let current = state.nodeByUuid.get(uuid);
+    while (current && !pathUuids.has(current.uuid)) {
+      pathUuids.add(current.uuid);
+      const parentUuid = current.parentUuid || (acrossCompactions ? current.logicalParentUuid : null);
+      current = parentUuid ? state.nodeByUuid.get(parentUuid) : undefined;
     }
-
-    return activeUuids;
+    return pathUuids;
   }
 }
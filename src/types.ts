@@ -41,6 +41,99 @@ export interface ParsedPrompt {
    * Key is the file path, value is the original content.
    */
   originalFileContents: Map<string, string>;
+  /** Subagents started by this prompt through the Task tool */
+  subagents: ParsedSubagent[];
+  /** Edit/Write tool results of this prompt, in transcript order */
+  fileEdits: FileEdit[];
+  /** Tool calls made while answering this prompt, in transcript order */
+  toolCalls: ToolCall[];
+  /** Text of Claude's last reply to this prompt (empty if it only used tools) */
+  assistantText: string;
+  /** Time of the last transcript entry belonging to this prompt */
+  endTime: Date;
+}
+
+/** A tool call made by Claude */
+export interface ToolCall {
+  id?: string;
+  name: string;
+  input: Record<string, unknown>;
+  /** Set once the transcript holds the tool's result, i.e. the call has finished */
+  hasResult?: boolean;
+}
+
+/** A hunk of a structuredPatch recorded in an Edit/Write tool result */
+export interface StructuredPatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/** A single Edit/Write tool result recorded in the transcript */
+export interface FileEdit {
+  /** UUID of the transcript entry holding the tool result */
+  uuid: string;
+  timestamp: Date;
+  filePath: string;
+  /** File content before this edit (absent when the tool created the file) */
+  originalFile?: string;
+  oldString?: string;
+  newString?: string;
+  replaceAll?: boolean;
+  /** Replacements made by the MultiEdit tool, applied in order */
+  edits?: StringReplacement[];
+  /** Full content written by the Write tool (or NotebookEdit's updated notebook) */
+  content?: string;
+  structuredPatch?: StructuredPatchHunk[];
+  /** Name of the tool that made the edit, when known */
+  toolName?: string;
+}
+
+/** One replacement of a MultiEdit call */
+export interface StringReplacement {
+  oldString: string;
+  newString: string;
+  replaceAll?: boolean;
+}
+
+/** An Edit/Write tool result replayed in order with the edits of the file before it */
+export interface ReplayedEdit {
+  edit: FileEdit;
+  /** Prompt the edit belongs to (subagent edits belong to the prompt that started the subagent) */
+  prompt: ParsedPrompt;
+  /** Content before the edit, undefined when unknown */
+  before?: string;
+  /** Content after the edit, undefined when it cannot be replayed */
+  after?: string;
+}
+
+/** A conversation branch. Branches are created when /rewind is used. */
+export interface ParsedBranch {
+  /** UUID of the last entry on the branch */
+  id: string;
+  /** Whether this is the branch the conversation currently continues from */
+  isActive: boolean;
+  /** Number of prompts this branch shares with the active branch */
+  forkPromptNumber: number;
+  /** All prompts on the branch, including the ones shared with the active branch */
+  prompts: ParsedPrompt[];
+}
+
+/** A subagent (Task tool) run, parsed from its agent-*.jsonl transcript */
+export interface ParsedSubagent {
+  agentId: string;
+  /** Short description given to the Task tool call */
+  description: string;
+  transcriptPath: string;
+  toolsUsed: string[];
+  /** Files edited by the subagent (from toolUseResult) */
+  editedFiles: Set<string>;
+  /** Original file contents before the subagent's edits, keyed by file path */
+  originalFileContents: Map<string, string>;
+  /** Edit/Write tool results of the subagent, in transcript order */
+  fileEdits: FileEdit[];
 }
 
 /** A file change detected between before/after snapshots */
@@ -57,6 +150,55 @@ export interface FileChange {
    * Used when beforeBackup is null (first edit to a file in the session).
    */
   originalContent?: string;
+  /**
+   * Set for net changes across the whole session. promptNumber is then the
+   * first prompt that touched the file, and the change compares against the
+   * current file on disk.
+   */
+  cumulative?: boolean;
+  /** Set when the change was made by a subagent rather than the main conversation */
+  subagent?: {
+    agentId: string;
+    description: string;
+  };
+  /**
+   * Set when the change was seen on disk while one of the prompt's Bash
+   * commands ran, rather than recorded by a file-editing tool
+   */
+  viaBash?: boolean;
+}
+
+/** A file whose state differs between the start of one prompt and the end of a later one */
+export interface PromptRangeChange {
+  filePath: string;
+  changeType: 'modified' | 'added' | 'deleted';
+  fromPromptNumber: number;
+  toPromptNumber: number;
+  /** Backup of the file before the first prompt, if file-history has one */
+  beforeBackup: FileBackup | null;
+  /** Backup of the file after the last prompt, if file-history has one */
+  afterBackup: FileBackup | null;
+  /** Content before the first prompt when there is no backup (undefined if the file did not exist or is unknown) */
+  beforeContent?: string;
+  /** Content after the last prompt when there is no backup (undefined if the file did not exist or is unknown) */
+  afterContent?: string;
+  /** Whether the file changed but its content on one side was not recorded, so it cannot be diffed */
+  contentUnknown: boolean;
+}
+
+/** One recorded version of a file, listed by the file history view */
+export interface FileVersion {
+  /** Backup version number (@vN), or 0 for original content taken from the transcript */
+  version: number;
+  /** Backup file in file-history, or null when content holds the version */
+  backupFileName: string | null;
+  content?: string;
+  /** Prompt the version belongs to */
+  promptNumber: number;
+  promptText: string;
+  /** Whether the version is the file as it was before or after that prompt ran */
+  position: 'before' | 'after';
+  time: Date;
 }
 
 /** A parsed session from a transcript file */
@@ -68,6 +210,17 @@ export interface ParsedSession {
   lastUpdated: Date;
 }
 
+/** Lightweight description of a session, used by the session picker */
+export interface SessionSummary {
+  sessionId: string;
+  transcriptPath: string;
+  /** Text of the first prompt in the session (empty if the session has no prompts) */
+  firstPrompt: string;
+  startTime: Date;
+  endTime: Date;
+  promptCount: number;
+}
+
 /** Raw transcript entry types we care about */
 export interface TranscriptUserEntry {
   type: 'user';
@@ -80,6 +233,9 @@ export interface TranscriptUserEntry {
     role: 'user';
     content: string | Array<{ type: string; content?: string; tool_use_id?: string }>;
   };
+  /** Set on entries written by a subagent */
+  agentId?: string;
+  isSidechain?: boolean;
 }
 
 export interface TranscriptFileHistoryEntry {
@@ -94,18 +250,26 @@ export interface TranscriptToolResultEntry {
   type: 'user';
   uuid: string;
   parentUuid: string;
+  timestamp?: string;
   toolUseResult?: {
-    filePath: string;
+    /** Absent from NotebookEdit results, which use notebook_path */
+    filePath?: string;
     oldString?: string;
     newString?: string;
     originalFile?: string;
-    structuredPatch?: Array<{
-      oldStart: number;
-      oldLines: number;
-      newStart: number;
-      newLines: number;
-      lines: string[];
-    }>;
+    replaceAll?: boolean;
+    /** Set by the MultiEdit tool */
+    edits?: Array<{ old_string: string; new_string: string; replace_all?: boolean }>;
+    /** MultiEdit's name for originalFile */
+    originalFileContents?: string;
+    /** Set by the Write tool */
+    type?: 'create' | 'update';
+    content?: string;
+    structuredPatch?: StructuredPatchHunk[];
+    /** Set by the NotebookEdit tool */
+    notebook_path?: string;
+    original_file?: string;
+    updated_file?: string;
   };
 }
 
@@ -113,10 +277,12 @@ export interface TranscriptAssistantEntry {
   type: 'assistant';
   uuid: string;
   parentUuid: string;
+  timestamp?: string;
   message: {
     role: 'assistant';
     content: Array<{
       type: string;
+      id?: string;
       text?: string;
       name?: string;
       input?: Record<string, unknown>;
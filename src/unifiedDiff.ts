@@ -0,0 +1,247 @@
+/**
+ * Minimal line-based diff producing git-compatible unified patches.
+ *
+ * Kept dependency-free since the extension ships without node_modules.
+ */
+
+/** Number of unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+/** Edit distance above which the diff falls back to replacing all lines */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** A single line-level edit operation */
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  /** Index of the line in the old text (for equal/delete) */
+  oldIndex: number;
+  /** Index of the line in the new text (for equal/insert) */
+  newIndex: number;
+}
+
+/**
+ * Split text into lines, keeping each line's terminating newline so that a
+ * missing newline at end of file counts as a difference
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.split(/(?<=\n)/);
+}
+
+/**
+ * Compute the line operations that turn oldLines into newLines (Myers' algorithm)
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  // Trim the common prefix and suffix - most edits touch a small part of a file
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle = myers(a, b).map(op => ({
+    type: op.type,
+    oldIndex: op.oldIndex + prefix,
+    newIndex: op.newIndex + prefix,
+  }));
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', oldIndex: i, newIndex: i });
+  }
+  ops.push(...middle);
+  for (let i = 0; i < suffix; i++) {
+    ops.push({
+      type: 'equal',
+      oldIndex: oldLines.length - suffix + i,
+      newIndex: newLines.length - suffix + i,
+    });
+  }
+  return ops;
+}
+
+/**
+ * Myers' O(ND) shortest edit script.
+ * Falls back to replacing everything when the texts are too different,
+ * to keep memory bounded on large rewrites.
+ */
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  // trace[d] holds v for k in [-d-1, d+1] as it was at the start of round d
+  const trace: number[][] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((_, i) => ({ type: 'delete' as const, oldIndex: i, newIndex: 0 })),
+      ...b.map((_, i) => ({ type: 'insert' as const, oldIndex: n, newIndex: i })),
+    ];
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd(k - 1) < vd(k + 1)) ? k + 1 : k - 1;
+    const prevX = vd(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        y--;
+        ops.push({ type: 'insert', oldIndex: x, newIndex: y });
+      } else {
+        x--;
+        ops.push({ type: 'delete', oldIndex: x, newIndex: y });
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Create a git-style patch for one file.
+ *
+ * @param filePath Path relative to the repository root, using forward slashes
+ * @param before Content before the change, or null if the file did not exist
+ * @param after Content after the change, or null if the file was deleted
+ * @returns The patch text, or an empty string if nothing changed
+ */
+export function createFilePatch(filePath: string, before: string | null, after: string | null): string {
+  if (before === after || (before === null && after === null)) {
+    return '';
+  }
+
+  const header = [`diff --git a/${filePath} b/${filePath}`];
+  if (before === null) {
+    header.push('new file mode 100644');
+  } else if (after === null) {
+    header.push('deleted file mode 100644');
+  }
+
+  const oldLines = splitLines(before ?? '');
+  const newLines = splitLines(after ?? '');
+
+  // Adding or removing an empty file has no hunks
+  if (oldLines.length === 0 && newLines.length === 0) {
+    return header.join('\n') + '\n';
+  }
+
+  header.push(before === null ? '--- /dev/null' : `--- a/${filePath}`);
+  header.push(after === null ? '+++ /dev/null' : `+++ b/${filePath}`);
+
+  const hunks = buildHunks(oldLines, newLines, diffLines(oldLines, newLines));
+  return [...header, ...hunks].join('\n') + '\n';
+}
+
+/**
+ * Group diff operations into unified diff hunks with surrounding context
+ */
+function buildHunks(oldLines: string[], newLines: string[], ops: DiffOp[]): string[] {
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < ops.length) {
+    // Find the next change
+    while (i < ops.length && ops[i].type === 'equal') {
+      i++;
+    }
+    if (i >= ops.length) {
+      break;
+    }
+
+    const start = Math.max(0, i - CONTEXT_LINES);
+    let end = i;
+    // Extend the hunk while changes are close enough to share context
+    while (end < ops.length) {
+      if (ops[end].type !== 'equal') {
+        end++;
+        continue;
+      }
+      let nextChange = end;
+      while (nextChange < ops.length && ops[nextChange].type === 'equal') {
+        nextChange++;
+      }
+      if (nextChange < ops.length && nextChange - end <= CONTEXT_LINES * 2) {
+        end = nextChange;
+      } else {
+        end = Math.min(ops.length, end + CONTEXT_LINES);
+        break;
+      }
+    }
+
+    const hunkOps = ops.slice(start, end);
+    const oldCount = hunkOps.filter(op => op.type !== 'insert').length;
+    const newCount = hunkOps.filter(op => op.type !== 'delete').length;
+    const first = hunkOps[0];
+    // Unified diff line numbers are 1-based, and point before the hunk when it is empty
+    const oldStart = oldCount === 0 ? first.oldIndex : first.oldIndex + 1;
+    const newStart = newCount === 0 ? first.newIndex : first.newIndex + 1;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const op of hunkOps) {
+      const line = op.type === 'insert' ? newLines[op.newIndex] : oldLines[op.oldIndex];
+      const marker = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      if (line.endsWith('\n')) {
+        output.push(marker + line.slice(0, -1));
+      } else {
+        output.push(marker + line);
+        output.push('\\ No newline at end of file');
+      }
+    }
+
+    i = end;
+  }
+
+  return output;
+}
+
+/**
+ * Format a hunk range, omitting the count when it is 1 (as git does)
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+
+/**
+ * Truncate text for display on one line
+ */
+export function truncateText(text: string, maxLength: number): string {
+  // Remove newlines and normalize whitespace
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= maxLength) {
+    return normalized;
+  }
+  return normalized.substring(0, maxLength - 3) + '...';
+}
+
+/**
+ * The provider of the workspace folder containing a file
+ */
+export function getProviderFor<T extends { getWorkspaceFolder(): vscode.WorkspaceFolder }>(
+  providers: T[],
+  uri: vscode.Uri
+): T | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  return folder
+    ? providers.find(provider => provider.getWorkspaceFolder().uri.toString() === folder.uri.toString())
+    : undefined;
+}